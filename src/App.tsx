@@ -9,7 +9,10 @@ import AdminLayout from "./layouts/AdminLayout";
 import SettingsPage from "./pages/admin/Settings";
 import PowersPage from "./pages/admin/Powers";
 import ConversationsPage from "./pages/admin/Conversations";
+import ConversationDetailPage from "./pages/admin/ConversationDetail";
 import SystemPowersPage from "./pages/admin/SystemPowers"; // Importar a nova página
+import ApiKeysPage from "./pages/admin/ApiKeys";
+import AnalyticsPage from "./pages/admin/Analytics";
 import Login from "./pages/Login";
 import { SessionContextProvider, useSession } from "./contexts/SessionContext";
 import { SystemContextProvider } from "./contexts/SystemContext"; // Importar o novo contexto
@@ -55,7 +58,10 @@ const App = () => (
                 <Route path="settings" element={<SettingsPage />} />
                 <Route path="powers" element={<PowersPage />} />
                 <Route path="conversations" element={<ConversationsPage />} />
+                <Route path="conversations/:conversationId" element={<ConversationDetailPage />} />
                 <Route path="system-powers" element={<SystemPowersPage />} /> {/* Nova rota */}
+                <Route path="api-keys" element={<ApiKeysPage />} />
+                <Route path="analytics" element={<AnalyticsPage />} />
               </Route>
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
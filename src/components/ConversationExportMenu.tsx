@@ -0,0 +1,83 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { showError, showSuccess } from "@/utils/toast";
+import {
+  buildExport,
+  downloadExport,
+  ConversationWithMessages,
+  ExportFormat,
+  ExportPrompts,
+  EXPORT_FORMATS,
+} from "@/lib/conversationExport";
+
+interface ConversationExportMenuProps {
+  workspaceId: string;
+  // Nome do arquivo, sem extensão
+  fileName: string;
+  // Carrega as conversas a exportar; null quando o carregamento falhou e o erro já foi mostrado
+  loadConversations: () => Promise<ConversationWithMessages[] | null>;
+  disabled?: boolean;
+}
+
+const ConversationExportMenu: React.FC<ConversationExportMenuProps> = ({ workspaceId, fileName, loadConversations, disabled }) => {
+  const [exporting, setExporting] = useState(false);
+
+  // O JSONL de fine-tuning começa com os prompts atuais do assistente, como nas chamadas reais à IA
+  const loadPrompts = async (): Promise<ExportPrompts> => {
+    const { data, error } = await supabase
+      .from("settings")
+      .select("system_prompt, assistant_prompt")
+      .eq("workspace_id", workspaceId)
+      .maybeSingle();
+    if (error) console.error("Erro ao carregar prompts para a exportação:", error);
+    return { systemPrompt: data?.system_prompt, assistantPrompt: data?.assistant_prompt };
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      const items = await loadConversations();
+      if (!items) return;
+      if (items.length === 0) {
+        showError("Nenhuma conversa para exportar.");
+        return;
+      }
+      const prompts = format === "jsonl" ? await loadPrompts() : undefined;
+      downloadExport(format, fileName, buildExport(format, items, prompts));
+      showSuccess(`${items.length} conversa(s) exportada(s) em ${EXPORT_FORMATS[format].label}.`);
+    } catch (error) {
+      // Erros do Supabase chegam como objetos { message }, não como Error
+      showError(`Erro ao exportar conversas: ${(error as { message?: string }).message || error}`);
+      console.error(error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button type="button" variant="outline" size="sm" disabled={disabled || exporting}>
+          <Download className="mr-2 h-4 w-4" /> {exporting ? "Exportando..." : "Exportar"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {EXPORT_FORMATS[format].label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ConversationExportMenu;
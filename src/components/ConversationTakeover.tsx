@@ -0,0 +1,136 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Bot, Headset, Send } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/contexts/SessionContext";
+import { showError, showSuccess } from "@/utils/toast";
+import { Conversation } from "@/lib/conversations";
+import {
+  OPERATOR_MESSAGE_EVENT,
+  OperatorMessagePayload,
+  TAKEOVER_EVENT,
+  TakeoverPayload,
+  conversationChannelName,
+} from "@/lib/liveConversations";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+
+interface ConversationTakeoverProps {
+  conversation: Conversation;
+}
+
+// Controles do atendimento humano: assumir a conversa (pausa a IA), responder pela voz do assistente e devolver à IA
+const ConversationTakeover: React.FC<ConversationTakeoverProps> = ({ conversation }) => {
+  const { user } = useSession();
+  const [reply, setReply] = useState("");
+  const [busy, setBusy] = useState(false);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+
+  useEffect(() => {
+    const channel = supabase.channel(conversationChannelName(conversation.id));
+    channel.subscribe();
+    channelRef.current = channel;
+    return () => {
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [conversation.id]);
+
+  const takenOver = !!conversation.taken_over_by;
+  const takenOverByMe = takenOver && conversation.taken_over_by === user?.id;
+
+  const announceTakeover = (active: boolean) => {
+    const payload: TakeoverPayload = { conversation_id: conversation.id, active };
+    channelRef.current?.send({ type: "broadcast", event: TAKEOVER_EVENT, payload });
+  };
+
+  const handleTakeOver = async () => {
+    setBusy(true);
+    const { error } = await supabase.rpc("start_takeover", { p_conversation_id: conversation.id });
+    if (error) {
+      showError("Erro ao assumir a conversa.");
+      console.error(error);
+    } else {
+      announceTakeover(true);
+      showSuccess("Você assumiu a conversa. A IA está pausada.");
+    }
+    setBusy(false);
+  };
+
+  const handleRelease = async () => {
+    setBusy(true);
+    const { error } = await supabase.rpc("end_takeover", { p_conversation_id: conversation.id });
+    if (error) {
+      showError("Erro ao devolver a conversa para a IA.");
+      console.error(error);
+    } else {
+      announceTakeover(false);
+      showSuccess("Conversa devolvida para a IA.");
+    }
+    setBusy(false);
+  };
+
+  const handleSendReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = reply.trim();
+    if (!content) return;
+    setBusy(true);
+    const { data, error } = await supabase.rpc("append_operator_message", {
+      p_conversation_id: conversation.id,
+      p_content: content,
+    });
+    if (error) {
+      showError("Erro ao enviar a resposta.");
+      console.error(error);
+    } else {
+      const payload: OperatorMessagePayload = { conversation_id: conversation.id, message_id: data as string };
+      channelRef.current?.send({ type: "broadcast", event: OPERATOR_MESSAGE_EVENT, payload });
+      setReply("");
+    }
+    setBusy(false);
+  };
+
+  if (!takenOver) {
+    return (
+      <Button type="button" variant="outline" size="sm" onClick={handleTakeOver} disabled={busy}>
+        <Headset className="mr-2 h-4 w-4" /> Assumir Conversa
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Badge className="bg-amber-500 text-white">
+          <Headset className="mr-1 h-3 w-3" /> {takenOverByMe ? "Você está atendendo" : "Assumida por outro atendente"}
+        </Badge>
+        <div className="flex gap-2">
+          {!takenOverByMe && (
+            <Button type="button" variant="outline" size="sm" onClick={handleTakeOver} disabled={busy}>
+              <Headset className="mr-2 h-4 w-4" /> Assumir
+            </Button>
+          )}
+          <Button type="button" variant="outline" size="sm" onClick={handleRelease} disabled={busy}>
+            <Bot className="mr-2 h-4 w-4" /> Devolver à IA
+          </Button>
+        </div>
+      </div>
+      {takenOverByMe && (
+        <form onSubmit={handleSendReply} className="flex gap-2">
+          <Input
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            placeholder="Digite a resposta que o assistente vai falar..."
+            disabled={busy}
+          />
+          <Button type="submit" size="sm" disabled={busy || !reply.trim()}>
+            <Send className="h-4 w-4" />
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default ConversationTakeover;
@@ -0,0 +1,62 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { StoredMessage, formatDateTime, prettyJson } from "@/lib/conversations";
+
+interface ConversationTranscriptProps {
+  messages: StoredMessage[];
+}
+
+const MessageMeta: React.FC<{ message: StoredMessage }> = ({ message }) => {
+  const details = [
+    formatDateTime(message.created_at),
+    message.latency_ms != null ? `${message.latency_ms} ms` : null,
+    message.prompt_tokens != null ? `${message.prompt_tokens} + ${message.completion_tokens ?? 0} tokens` : null,
+  ].filter(Boolean);
+  return <p className="text-xs text-muted-foreground mt-1">{details.join(" · ")}</p>;
+};
+
+// Transcrição completa: falas, chamadas de poderes com os argumentos e a resposta devolvida pelo proxy
+const ConversationTranscript: React.FC<ConversationTranscriptProps> = ({ messages }) => {
+  if (messages.length === 0) {
+    return <p className="text-muted-foreground">Nenhuma mensagem nesta conversa.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {messages.map((message) => {
+        if (message.role === "tool") {
+          return (
+            <div key={message.id} className="ml-8 border-l-4 border-amber-400 pl-3">
+              <p className="text-sm font-semibold">Resultado do poder <span className="font-mono">{message.name}</span></p>
+              <pre className="bg-gray-100 dark:bg-gray-800 p-2 rounded-md text-xs overflow-auto max-h-64">{prettyJson(message.content)}</pre>
+              <MessageMeta message={message} />
+            </div>
+          );
+        }
+
+        const isUser = message.role === "user";
+        return (
+          <div key={message.id} className={cn("flex", isUser ? "justify-end" : "justify-start")}>
+            <div className={cn("max-w-[80%] rounded-lg p-3", isUser ? "bg-primary text-primary-foreground" : message.operator_id ? "bg-amber-100 dark:bg-amber-900" : "bg-muted")}>
+              <p className="text-xs font-semibold mb-1">
+                {isUser ? "Usuário" : message.role === "system" ? "Sistema" : message.operator_id ? "Atendente" : "Assistente"}
+                {message.interrupted && <Badge variant="outline" className="ml-2">Interrompida</Badge>}
+              </p>
+              {message.content && <p className="whitespace-pre-wrap">{message.content}</p>}
+              {message.tool_calls?.map((toolCall) => (
+                <div key={toolCall.id} className="mt-2">
+                  <p className="text-sm">Chamou o poder <span className="font-mono font-semibold">{toolCall.function.name}</span> com:</p>
+                  <pre className="bg-background/60 p-2 rounded-md text-xs overflow-auto">{prettyJson(toolCall.function.arguments)}</pre>
+                </div>
+              ))}
+              <MessageMeta message={message} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ConversationTranscript;
@@ -0,0 +1,206 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Ear, Brain, Zap, Volume2, Pause, Eye, ShieldQuestion } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { showError } from "@/utils/toast";
+import { cn } from "@/lib/utils";
+import ConversationTranscript from "@/components/ConversationTranscript";
+import ConversationTakeover from "@/components/ConversationTakeover";
+import { Conversation, StoredMessage, CHANNEL_LABELS, CONVERSATION_COLUMNS, formatDateTime, formatDuration } from "@/lib/conversations";
+import {
+  ASSISTANT_STATE_EVENT,
+  AssistantStatePayload,
+  LiveAssistantState,
+  LIVE_STATE_LABELS,
+  liveChannelName,
+} from "@/lib/liveConversations";
+
+interface LiveConversationsProps {
+  workspaceId: string;
+}
+
+const STATE_ICONS: Record<LiveAssistantState, React.ElementType> = {
+  idle: Pause,
+  listening: Ear,
+  thinking: Brain,
+  executing_power: Zap,
+  awaiting_confirmation: ShieldQuestion,
+  speaking: Volume2,
+};
+
+const STATE_COLORS: Record<LiveAssistantState, string> = {
+  idle: "bg-gray-400",
+  listening: "bg-pink-500",
+  thinking: "bg-indigo-500",
+  executing_power: "bg-amber-500",
+  awaiting_confirmation: "bg-sky-500",
+  speaking: "bg-green-600",
+};
+
+// Acompanha em tempo real as conversas ativas do workspace: transcrição, estado do assistente e poderes
+const LiveConversations: React.FC<LiveConversationsProps> = ({ workspaceId }) => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [messages, setMessages] = useState<Record<string, StoredMessage[]>>({});
+  const [states, setStates] = useState<Record<string, AssistantStatePayload>>({});
+  const [loading, setLoading] = useState(true);
+  const knownConversationsRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const upsertConversation = (conversation: Conversation) => {
+      if (conversation.status !== "active") {
+        knownConversationsRef.current.delete(conversation.id);
+        setConversations((current) => current.filter((item) => item.id !== conversation.id));
+        return;
+      }
+      knownConversationsRef.current.add(conversation.id);
+      setConversations((current) =>
+        current.some((item) => item.id === conversation.id)
+          ? current.map((item) => (item.id === conversation.id ? conversation : item))
+          : [conversation, ...current],
+      );
+    };
+
+    // Mensagem de uma conversa que ainda não está na tela (ex.: o evento da conversa não chegou)
+    const loadConversation = async (conversationId: string) => {
+      knownConversationsRef.current.add(conversationId);
+      const { data } = await supabase.from("conversations").select(CONVERSATION_COLUMNS).eq("id", conversationId).maybeSingle();
+      if (data && !cancelled) upsertConversation(data as Conversation);
+    };
+
+    const addMessage = (message: StoredMessage) => {
+      setMessages((current) => {
+        const list = current[message.conversation_id] || [];
+        if (list.some((item) => item.id === message.id)) return current;
+        return { ...current, [message.conversation_id]: [...list, message] };
+      });
+      if (!knownConversationsRef.current.has(message.conversation_id)) loadConversation(message.conversation_id);
+    };
+
+    const replaceMessage = (message: StoredMessage) => {
+      setMessages((current) => ({
+        ...current,
+        [message.conversation_id]: (current[message.conversation_id] || []).map((item) => (item.id === message.id ? message : item)),
+      }));
+    };
+
+    const loadActive = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("conversations")
+        .select(CONVERSATION_COLUMNS)
+        .eq("workspace_id", workspaceId)
+        .eq("status", "active")
+        .order("created_at", { ascending: false });
+      if (error) {
+        showError("Erro ao carregar conversas ativas.");
+        console.error(error);
+        setLoading(false);
+        return;
+      }
+      const active = (data || []) as Conversation[];
+      const ids = active.map((conversation) => conversation.id);
+      const { data: messagesData, error: messagesError } = ids.length
+        ? await supabase.from("messages").select("*").in("conversation_id", ids).order("created_at", { ascending: true })
+        : { data: [], error: null };
+      if (messagesError) {
+        showError("Erro ao carregar mensagens das conversas ativas.");
+        console.error(messagesError);
+      }
+      if (cancelled) return;
+
+      const grouped: Record<string, StoredMessage[]> = {};
+      for (const message of (messagesData || []) as StoredMessage[]) {
+        (grouped[message.conversation_id] ||= []).push(message);
+      }
+      ids.forEach((id) => knownConversationsRef.current.add(id));
+      setConversations(active);
+      setMessages(grouped);
+      setLoading(false);
+    };
+
+    const filter = `workspace_id=eq.${workspaceId}`;
+    const channel = supabase
+      .channel(liveChannelName(workspaceId), { config: { private: true } })
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "messages", filter }, (payload) =>
+        addMessage(payload.new as StoredMessage))
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "messages", filter }, (payload) =>
+        replaceMessage(payload.new as StoredMessage))
+      .on("postgres_changes", { event: "*", schema: "public", table: "conversations", filter }, (payload) => {
+        if (payload.new && "id" in payload.new) upsertConversation(payload.new as Conversation);
+      })
+      .on("broadcast", { event: ASSISTANT_STATE_EVENT }, ({ payload }) => {
+        const state = payload as AssistantStatePayload;
+        setStates((current) => ({ ...current, [state.conversation_id]: state }));
+      })
+      .subscribe((status) => {
+        // Carrega o estado inicial depois de assinar, para não perder mensagens entre as duas etapas
+        if (status === "SUBSCRIBED") loadActive();
+      });
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [workspaceId]);
+
+  if (loading) {
+    return <p className="text-muted-foreground">Conectando ao monitoramento ao vivo...</p>;
+  }
+
+  if (conversations.length === 0) {
+    return <p className="text-muted-foreground">Nenhuma conversa ativa no momento. As novas aparecem aqui automaticamente.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+      {conversations.map((conversation) => {
+        const state = states[conversation.id];
+        const liveState = state?.state || "idle";
+        const StateIcon = STATE_ICONS[liveState];
+        return (
+          <Card key={conversation.id}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center justify-between">
+                <span>{formatDateTime(conversation.created_at)} <span className="text-xs text-muted-foreground font-normal">· {CHANNEL_LABELS[conversation.channel] || conversation.channel} · {formatDuration(conversation.created_at)}</span></span>
+                <Button asChild variant="ghost" size="sm">
+                  <Link to={`/admin/conversations/${conversation.id}`}><Eye className="h-4 w-4" /></Link>
+                </Button>
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                <Badge className={cn("text-white", STATE_COLORS[liveState])}>
+                  <StateIcon className="mr-1 h-3 w-3" /> {LIVE_STATE_LABELS[liveState]}
+                </Badge>
+                {liveState === "executing_power" && state?.powers?.map((name) => (<Badge key={name} variant="outline" className="font-mono">{name}</Badge>))}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <LiveTranscript messages={messages[conversation.id] || []} />
+              <ConversationTakeover conversation={conversation} />
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+// Mantém a rolagem no fim enquanto chegam mensagens novas
+const LiveTranscript: React.FC<{ messages: StoredMessage[] }> = ({ messages }) => {
+  const bottomRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "nearest" });
+  }, [messages.length]);
+  return (
+    <div className="max-h-96 overflow-y-auto pr-2">
+      <ConversationTranscript messages={messages} />
+      <div ref={bottomRef} />
+    </div>
+  );
+};
+
+export default LiveConversations;
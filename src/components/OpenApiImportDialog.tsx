@@ -0,0 +1,223 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileUp } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { showError, showSuccess } from "@/utils/toast";
+import { parseOpenApi, ParsedOpenApi } from "@/lib/openapi";
+
+interface OpenApiImportDialogProps {
+  workspaceId: string;
+  apiKeys: { id: string; label: string; provider: string }[];
+  // Nomes dos poderes já cadastrados; operações com o mesmo nome começam desmarcadas
+  existingNames: string[];
+  // Variáveis do sistema; parâmetros com esses nomes são renomeados para não serem sobrescritos por elas
+  reservedNames: string[];
+  onImported: () => void;
+}
+
+const OpenApiImportDialog: React.FC<OpenApiImportDialogProps> = ({ workspaceId, apiKeys, existingNames, reservedNames, onImported }) => {
+  const [open, setOpen] = useState(false);
+  const [source, setSource] = useState("");
+  const [baseUrl, setBaseUrl] = useState("");
+  const [parsed, setParsed] = useState<ParsedOpenApi | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [apiKeyId, setApiKeyId] = useState("none");
+  const [importing, setImporting] = useState(false);
+
+  const resetState = () => {
+    setSource("");
+    setBaseUrl("");
+    setParsed(null);
+    setSelected(new Set());
+    setApiKeyId("none");
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) resetState();
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      setSource(String(reader.result || ""));
+      setParsed(null);
+    };
+    reader.onerror = () => showError("Erro ao ler o arquivo.");
+    reader.readAsText(file);
+    event.target.value = "";
+  };
+
+  const handleParse = () => {
+    try {
+      const result = parseOpenApi(source, baseUrl, reservedNames);
+      if (result.operations.length === 0) {
+        showError("Nenhuma operação encontrada no documento.");
+        return;
+      }
+      setParsed(result);
+      if (!baseUrl) setBaseUrl(result.baseUrl);
+      setSelected(new Set(result.operations.filter((operation) => !existingNames.includes(operation.power.name)).map((operation) => operation.key)));
+    } catch (e: unknown) {
+      showError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const toggleOperation = (key: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+    const rows = parsed.operations
+      .filter((operation) => selected.has(operation.key))
+      .map(({ power }) => ({
+        workspace_id: workspaceId,
+        name: power.name,
+        description: power.description,
+        method: power.method,
+        url: power.url,
+        headers: power.headers,
+        body: power.body || {},
+        api_key_id: apiKeyId === "none" ? null : apiKeyId,
+        parameters_schema: power.parameters_schema,
+      }));
+    if (rows.length === 0) {
+      showError("Selecione ao menos uma operação.");
+      return;
+    }
+    setImporting(true);
+    const { error } = await supabase.from("powers").insert(rows);
+    setImporting(false);
+    if (error) {
+      showError(`Erro ao importar poderes: ${error.message}`);
+      console.error(error);
+      return;
+    }
+    showSuccess(`${rows.length} poder(es) importado(s) com sucesso!`);
+    handleOpenChange(false);
+    onImported();
+  };
+
+  // As URLs dos poderes precisam ser absolutas; documentos com "servers" relativos exigem a URL base manual
+  const relativeBaseUrl = !!parsed && !/^https?:\/\//i.test(parsed.baseUrl);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm"><FileUp className="mr-2 h-4 w-4" /> Importar OpenAPI</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar Poderes de um Documento OpenAPI</DialogTitle>
+          <DialogDescription>
+            Cole ou envie um documento OpenAPI 3 (ou Swagger 2) em JSON ou YAML e escolha as operações que viram poderes.
+            Parâmetros de path, query e corpo viram atributos do JSON Schema e placeholders {"{param}"} na URL e no corpo.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="openapi-source">Documento</Label>
+            <Textarea
+              id="openapi-source"
+              rows={8}
+              className="font-mono text-xs"
+              placeholder='{"openapi": "3.0.0", "paths": { ... }}'
+              value={source}
+              onChange={(event) => { setSource(event.target.value); setParsed(null); }}
+            />
+            <Input type="file" accept=".json,.yaml,.yml,application/json,application/yaml" className="mt-2" onChange={handleFile} />
+          </div>
+          <div>
+            <Label htmlFor="openapi-base-url">URL Base (opcional)</Label>
+            <Input id="openapi-base-url" placeholder="https://api.exemplo.com/v1" value={baseUrl} onChange={(event) => { setBaseUrl(event.target.value); setParsed(null); }} />
+            <p className="text-xs text-muted-foreground mt-1">Substitui o primeiro servidor declarado no documento.</p>
+          </div>
+          <Button type="button" variant="secondary" onClick={handleParse} disabled={!source.trim()}>Analisar</Button>
+
+          {parsed && (
+            <div className="space-y-4">
+              {relativeBaseUrl && (
+                <p className="text-sm text-destructive">A URL base "{parsed.baseUrl}" não é absoluta. Informe a URL base e analise novamente.</p>
+              )}
+              <div className="flex items-center justify-between">
+                <p className="font-semibold">{parsed.title}: {selected.size} de {parsed.operations.length} operação(ões) selecionada(s)</p>
+                <div className="space-x-2">
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setSelected(new Set(parsed.operations.map((operation) => operation.key)))}>Todas</Button>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setSelected(new Set())}>Nenhuma</Button>
+                </div>
+              </div>
+              <div className="space-y-2 max-h-72 overflow-y-auto rounded-md border p-2">
+                {parsed.operations.map((operation) => (
+                  <label key={operation.key} className="flex items-start gap-3 p-2 rounded-md hover:bg-muted cursor-pointer">
+                    <Checkbox className="mt-1" checked={selected.has(operation.key)} onCheckedChange={(checked) => toggleOperation(operation.key, checked === true)} />
+                    <div className="min-w-0">
+                      <p className="font-semibold">
+                        {operation.power.name}
+                        <Badge variant="outline" className="ml-2">{operation.method}</Badge>
+                        {existingNames.includes(operation.power.name) && <Badge variant="secondary" className="ml-2">já existe</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">{operation.path}{operation.summary ? ` · ${operation.summary}` : ""}</p>
+                      {operation.renamed.length > 0 && (
+                        <p className="text-xs text-amber-700 dark:text-amber-400">
+                          Renomeado(s) por coincidir com variáveis do sistema ou com outro parâmetro: {operation.renamed.map(({ from, to }) => `${from} → ${to}`).join(", ")}
+                        </p>
+                      )}
+                    </div>
+                  </label>
+                ))}
+              </div>
+              <div>
+                <Label htmlFor="openapi-api-key">Chave de API (opcional)</Label>
+                <Select onValueChange={setApiKeyId} value={apiKeyId}>
+                  <SelectTrigger id="openapi-api-key"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Nenhuma</SelectItem>
+                    {apiKeys.map((key) => (<SelectItem key={key.id} value={key.id}>{key.label} ({key.provider})</SelectItem>))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" onClick={handleImport} disabled={!parsed || selected.size === 0 || relativeBaseUrl || importing}>
+            {importing ? "Importando..." : "Importar Selecionados"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OpenApiImportDialog;
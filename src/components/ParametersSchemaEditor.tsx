@@ -0,0 +1,389 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronDown, ChevronUp, PlusCircle, Trash2 } from "lucide-react";
+import { showError } from "@/utils/toast";
+
+// Editor em formulário do parameters_schema. Trabalha direto sobre o objeto do JSON Schema e só altera
+// as palavras-chave editadas, então tudo o que o formulário não mostra é preservado ao voltar para o JSON.
+
+type JsonSchema = Record<string, unknown>;
+
+const SCHEMA_TYPES = ["string", "number", "integer", "boolean", "array", "object"] as const;
+type SchemaType = typeof SCHEMA_TYPES[number];
+
+const TYPE_LABELS: Record<SchemaType, string> = {
+  string: "String",
+  number: "Number",
+  integer: "Integer",
+  boolean: "Boolean",
+  array: "Array",
+  object: "Object",
+};
+
+// Palavras-chave que só valem para um tipo; são removidas quando o tipo muda
+const TYPE_KEYWORDS: Record<SchemaType, string[]> = {
+  string: ["minLength", "maxLength", "pattern", "format"],
+  number: ["minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum", "multipleOf"],
+  integer: ["minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum", "multipleOf"],
+  boolean: [],
+  array: ["items", "minItems", "maxItems", "uniqueItems"],
+  object: ["properties", "required", "additionalProperties"],
+};
+
+// Limites numéricos mostrados para cada tipo: [palavra-chave, rótulo]
+const LIMIT_FIELDS: Partial<Record<SchemaType, [string, string][]>> = {
+  string: [["minLength", "Tamanho mínimo"], ["maxLength", "Tamanho máximo"]],
+  number: [["minimum", "Mínimo"], ["maximum", "Máximo"]],
+  integer: [["minimum", "Mínimo"], ["maximum", "Máximo"]],
+  array: [["minItems", "Mínimo de itens"], ["maxItems", "Máximo de itens"]],
+};
+
+const FORMATS = ["date", "date-time", "time", "email", "uri", "uuid"];
+
+const ADVANCED_KEYWORDS = ["enum", "default", "format", "pattern", ...Object.values(LIMIT_FIELDS).flat().map(([key]) => key)];
+
+const isObject = (value: unknown): value is JsonSchema => !!value && typeof value === "object" && !Array.isArray(value);
+
+const schemaType = (schema: JsonSchema): SchemaType | null =>
+  SCHEMA_TYPES.includes(schema.type as SchemaType) ? (schema.type as SchemaType) : null;
+
+// Devolve uma cópia com a palavra-chave alterada; undefined remove a palavra-chave
+const withKeyword = (schema: JsonSchema, key: string, value: unknown): JsonSchema => {
+  const next = { ...schema };
+  if (value === undefined) delete next[key];
+  else next[key] = value;
+  return next;
+};
+
+const withType = (schema: JsonSchema, type: SchemaType): JsonSchema => {
+  const next: JsonSchema = { ...schema, type };
+  const current = schemaType(schema);
+  if (current) {
+    for (const key of TYPE_KEYWORDS[current]) {
+      if (!TYPE_KEYWORDS[type].includes(key)) delete next[key];
+    }
+  }
+  // enum e default do tipo anterior raramente continuam válidos
+  if (current !== type) {
+    delete next.enum;
+    delete next.default;
+  }
+  if (type === "array" && !isObject(next.items)) next.items = { type: "string" };
+  if (type === "object" && !isObject(next.properties)) next.properties = {};
+  return next;
+};
+
+const formatValue = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value));
+
+// Converte o texto digitado no tipo do atributo; lança Error com mensagem para o usuário
+const parseValue = (text: string, type: SchemaType): unknown => {
+  if (type === "number" || type === "integer") {
+    const value = Number(text);
+    if (!text.trim() || Number.isNaN(value) || (type === "integer" && !Number.isInteger(value))) {
+      throw new Error(`"${text}" não é um valor ${type === "integer" ? "inteiro" : "numérico"} válido.`);
+    }
+    return value;
+  }
+  if (type === "array" || type === "object") {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`"${text}" não é um JSON válido.`);
+    }
+  }
+  return text;
+};
+
+interface CommitInputProps {
+  value: string;
+  onCommit: (value: string) => void;
+  multiline?: boolean;
+  placeholder?: string;
+}
+
+// Campo que só grava ao sair (ou com Enter): nomes e valores que precisam ser interpretados
+// não podem mudar o schema a cada tecla
+const CommitInput: React.FC<CommitInputProps> = ({ value, onCommit, multiline, placeholder }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+
+  if (multiline) {
+    return <Textarea rows={3} placeholder={placeholder} value={draft} onChange={(event) => setDraft(event.target.value)} onBlur={commit} />;
+  }
+  return (
+    <Input
+      placeholder={placeholder}
+      value={draft}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        // Enter não deve enviar o formulário do poder
+        if (event.key === "Enter") {
+          event.preventDefault();
+          commit();
+        }
+      }}
+    />
+  );
+};
+
+interface SchemaFieldsProps {
+  schema: JsonSchema;
+  onChange: (schema: JsonSchema) => void;
+  depth: number;
+}
+
+// Tipo, descrição, opções avançadas e, para listas e objetos, o schema dos itens e das propriedades
+const SchemaFields: React.FC<SchemaFieldsProps> = ({ schema, onChange, depth }) => {
+  const [showAdvanced, setShowAdvanced] = useState(() => ADVANCED_KEYWORDS.some((key) => key in schema));
+  const type = schemaType(schema);
+
+  const commitValue = (key: "default" | "enum", text: string) => {
+    if (!type) return;
+    try {
+      if (key === "default") {
+        onChange(withKeyword(schema, "default", text.trim() ? parseValue(text, type) : undefined));
+      } else {
+        const values = text.split("\n").map((line) => line.trim()).filter(Boolean).map((line) => parseValue(line, type));
+        onChange(withKeyword(schema, "enum", values.length ? values : undefined));
+      }
+    } catch (e) {
+      showError((e as Error).message);
+    }
+  };
+
+  if (!type) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Tipo personalizado ({formatValue(schema.type ?? "sem tipo")}). Edite este atributo na aba JSON.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-12 gap-2 items-end">
+        <div className="col-span-3">
+          <Label>Tipo</Label>
+          <Select onValueChange={(value) => onChange(withType(schema, value as SchemaType))} value={type}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {SCHEMA_TYPES.map((option) => (<SelectItem key={option} value={option}>{TYPE_LABELS[option]}</SelectItem>))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="col-span-8">
+          <Label>Descrição</Label>
+          <Input
+            placeholder="Descrição para a IA"
+            value={typeof schema.description === "string" ? schema.description : ""}
+            onChange={(event) => onChange(withKeyword(schema, "description", event.target.value || undefined))}
+          />
+        </div>
+        <div className="col-span-1">
+          <Button type="button" variant="ghost" size="icon" onClick={() => setShowAdvanced(!showAdvanced)} title="Mais opções">
+            {showAdvanced ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+        </div>
+      </div>
+
+      {showAdvanced && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 rounded-md bg-muted/50 p-2">
+          {type !== "boolean" && type !== "array" && type !== "object" && (
+            <div>
+              <Label>Valores permitidos (um por linha)</Label>
+              <CommitInput
+                multiline
+                value={Array.isArray(schema.enum) ? schema.enum.map(formatValue).join("\n") : ""}
+                onCommit={(text) => commitValue("enum", text)}
+              />
+            </div>
+          )}
+          <div>
+            <Label>Valor padrão</Label>
+            {type === "boolean" ? (
+              <Select
+                onValueChange={(value) => onChange(withKeyword(schema, "default", value === "none" ? undefined : value === "true"))}
+                value={typeof schema.default === "boolean" ? String(schema.default) : "none"}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Nenhum</SelectItem>
+                  <SelectItem value="true">true</SelectItem>
+                  <SelectItem value="false">false</SelectItem>
+                </SelectContent>
+              </Select>
+            ) : (
+              <CommitInput
+                value={schema.default === undefined ? "" : formatValue(schema.default)}
+                placeholder={type === "array" || type === "object" ? "JSON" : undefined}
+                onCommit={(text) => commitValue("default", text)}
+              />
+            )}
+          </div>
+          {type === "string" && (
+            <>
+              <div>
+                <Label>Formato</Label>
+                <Select onValueChange={(value) => onChange(withKeyword(schema, "format", value === "none" ? undefined : value))} value={typeof schema.format === "string" ? schema.format : "none"}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Nenhum</SelectItem>
+                    {/* Formatos fora da lista, vindos do JSON, continuam selecionáveis */}
+                    {[...new Set([...FORMATS, ...(typeof schema.format === "string" ? [schema.format] : [])])].map((format) => (
+                      <SelectItem key={format} value={format}>{format}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Padrão (regex)</Label>
+                <CommitInput
+                  value={typeof schema.pattern === "string" ? schema.pattern : ""}
+                  placeholder="^[0-9]{8}$"
+                  onCommit={(text) => onChange(withKeyword(schema, "pattern", text || undefined))}
+                />
+              </div>
+            </>
+          )}
+          {(LIMIT_FIELDS[type] || []).map(([key, label]) => (
+            <div key={key}>
+              <Label>{label}</Label>
+              <Input
+                type="number"
+                value={typeof schema[key] === "number" ? String(schema[key]) : ""}
+                onChange={(event) => onChange(withKeyword(schema, key, event.target.value === "" ? undefined : Number(event.target.value)))}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {type === "array" && (
+        <div className="ml-4 border-l pl-4 space-y-2">
+          <Label>Itens da lista</Label>
+          {isObject(schema.items) ? (
+            <SchemaFields schema={schema.items} onChange={(items) => onChange(withKeyword(schema, "items", items))} depth={depth + 1} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Itens em formato de tupla. Edite-os na aba JSON.</p>
+          )}
+        </div>
+      )}
+      {type === "object" && (
+        <div className="ml-4 border-l pl-4 space-y-2">
+          <Label>Propriedades</Label>
+          <PropertiesEditor schema={schema} onChange={onChange} depth={depth + 1} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface PropertiesEditorProps {
+  schema: JsonSchema;
+  onChange: (schema: JsonSchema) => void;
+  depth: number;
+}
+
+// Lista de propriedades de um schema do tipo objeto, com nome e obrigatoriedade
+const PropertiesEditor: React.FC<PropertiesEditorProps> = ({ schema, onChange, depth }) => {
+  const properties = isObject(schema.properties) ? schema.properties : {};
+  const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+  const entries = Object.entries(properties);
+
+  const update = (nextProperties: JsonSchema, nextRequired: string[]) => {
+    onChange({ ...withKeyword(schema, "required", nextRequired.length || "required" in schema ? nextRequired : undefined), properties: nextProperties });
+  };
+
+  const rename = (oldName: string, newName: string) => {
+    const name = newName.trim();
+    if (!name) {
+      showError("O nome do atributo é obrigatório.");
+      return;
+    }
+    if (name !== oldName && name in properties) {
+      showError(`Já existe um atributo chamado "${name}".`);
+      return;
+    }
+    // Reconstrói o objeto para manter a ordem das propriedades
+    update(
+      Object.fromEntries(entries.map(([key, value]) => [key === oldName ? name : key, value])),
+      required.map((key) => (key === oldName ? name : key)),
+    );
+  };
+
+  const addProperty = () => {
+    let index = entries.length + 1;
+    while (`param_${index}` in properties) index++;
+    update({ ...properties, [`param_${index}`]: { type: "string", description: "" } }, required);
+  };
+
+  return (
+    <div className="space-y-2">
+      {entries.map(([name, propertySchema]) => (
+        <div key={name} className="space-y-2 border-b pb-2">
+          <div className="grid grid-cols-12 gap-2 items-end">
+            <div className="col-span-8">
+              <Label>Atributo</Label>
+              <CommitInput value={name} placeholder="nome_param" onCommit={(value) => rename(name, value)} />
+            </div>
+            <div className="col-span-3 flex items-center space-x-2 pb-2">
+              <Checkbox
+                checked={required.includes(name)}
+                onCheckedChange={(checked) => update(properties, checked === true ? [...required, name] : required.filter((key) => key !== name))}
+              />
+              <Label>Obrigatório</Label>
+            </div>
+            <div className="col-span-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => update(Object.fromEntries(entries.filter(([key]) => key !== name)), required.filter((key) => key !== name))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <SchemaFields
+            schema={isObject(propertySchema) ? propertySchema : {}}
+            onChange={(next) => update({ ...properties, [name]: next }, required)}
+            depth={depth}
+          />
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={addProperty}>
+        <PlusCircle className="mr-2 h-4 w-4" /> {depth === 0 ? "Adicionar Parâmetro" : "Adicionar Propriedade"}
+      </Button>
+    </div>
+  );
+};
+
+interface ParametersSchemaEditorProps {
+  schema: JsonSchema;
+  onChange: (schema: JsonSchema) => void;
+}
+
+const ParametersSchemaEditor: React.FC<ParametersSchemaEditorProps> = ({ schema, onChange }) => (
+  <PropertiesEditor schema={schema} onChange={onChange} depth={0} />
+);
+
+export default ParametersSchemaEditor;
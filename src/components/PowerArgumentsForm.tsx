@@ -0,0 +1,148 @@
+import React, { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Formulário gerado a partir do parameters_schema para testar um poder com os argumentos que a IA enviaria.
+// Campos vazios ficam fora do objeto, como um argumento que a IA não preencheu; listas e objetos são editados em JSON.
+
+type JsonSchema = Record<string, unknown>;
+
+// Valor do Select para "não informado", já que o Select não aceita valor vazio
+const EMPTY_OPTION = "__vazio__";
+
+const isObject = (value: unknown): value is JsonSchema => !!value && typeof value === "object" && !Array.isArray(value);
+
+const formatJson = (value: unknown) =>
+  value === undefined ? "" : typeof value === "string" ? value : JSON.stringify(value, null, 2);
+
+interface FieldProps {
+  id: string;
+  schema: JsonSchema;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+// Texto JSON aplicado ao sair do campo; JSON inválido fica como texto e aparece na validação do teste
+const JsonField: React.FC<FieldProps> = ({ id, schema, value, onChange }) => {
+  const [text, setText] = useState(formatJson(value));
+  const commit = () => {
+    if (!text.trim()) return onChange(undefined);
+    try {
+      onChange(JSON.parse(text));
+    } catch {
+      onChange(text);
+    }
+  };
+  return (
+    <Textarea
+      id={id}
+      rows={3}
+      className="font-mono text-xs"
+      placeholder={schema.type === "array" ? '["item"]' : '{"chave": "valor"}'}
+      value={text}
+      onChange={(event) => setText(event.target.value)}
+      onBlur={commit}
+    />
+  );
+};
+
+const ArgumentField: React.FC<FieldProps> = ({ id, schema, value, onChange }) => {
+  if (Array.isArray(schema.enum) || schema.type === "boolean") {
+    const options = Array.isArray(schema.enum) ? schema.enum : [true, false];
+    const selected = options.findIndex((option) => option === value);
+    return (
+      <Select
+        value={selected === -1 ? EMPTY_OPTION : String(selected)}
+        onValueChange={(index) => onChange(index === EMPTY_OPTION ? undefined : options[Number(index)])}
+      >
+        <SelectTrigger id={id}><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value={EMPTY_OPTION}>Não informado</SelectItem>
+          {options.map((option, index) => (
+            <SelectItem key={index} value={String(index)}>{typeof option === "string" ? option : JSON.stringify(option)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (schema.type === "number" || schema.type === "integer") {
+    return (
+      <Input
+        id={id}
+        type="number"
+        step={schema.type === "integer" ? 1 : "any"}
+        value={value === undefined ? "" : String(value)}
+        onChange={(event) => onChange(event.target.value === "" ? undefined : Number(event.target.value))}
+      />
+    );
+  }
+
+  if (schema.type === "string") {
+    return (
+      <Input
+        id={id}
+        placeholder={typeof schema.format === "string" ? schema.format : undefined}
+        value={typeof value === "string" ? value : value === undefined ? "" : JSON.stringify(value)}
+        onChange={(event) => onChange(event.target.value === "" ? undefined : event.target.value)}
+      />
+    );
+  }
+
+  // A chave remonta o campo quando o valor muda por fora (ex.: preenchido pela IA)
+  return <JsonField key={formatJson(value)} id={id} schema={schema} value={value} onChange={onChange} />;
+};
+
+interface PowerArgumentsFormProps {
+  schema: JsonSchema | null;
+  value: Record<string, unknown>;
+  onChange: (value: Record<string, unknown>) => void;
+}
+
+const PowerArgumentsForm: React.FC<PowerArgumentsFormProps> = ({ schema, value, onChange }) => {
+  const properties = isObject(schema?.properties) ? schema.properties : {};
+  const required = Array.isArray(schema?.required) ? (schema.required as string[]) : [];
+  const names = Object.keys(properties);
+
+  if (names.length === 0) {
+    return <p className="text-sm text-muted-foreground">Este poder não recebe parâmetros.</p>;
+  }
+
+  const setArgument = (name: string, argument: unknown) => {
+    const next = { ...value };
+    if (argument === undefined) delete next[name];
+    else next[name] = argument;
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {names.map((name) => {
+        const property = isObject(properties[name]) ? properties[name] : {};
+        const id = `power-test-argument-${name}`;
+        return (
+          <div key={name}>
+            <Label htmlFor={id}>
+              {name}{required.includes(name) && <span className="text-destructive"> *</span>}
+              {typeof property.type === "string" && <span className="ml-1 text-xs text-muted-foreground">({property.type})</span>}
+            </Label>
+            <ArgumentField id={id} schema={property} value={value[name]} onChange={(argument) => setArgument(name, argument)} />
+            {typeof property.description === "string" && property.description && (
+              <p className="text-xs text-muted-foreground mt-1">{property.description}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PowerArgumentsForm;
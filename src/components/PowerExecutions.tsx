@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp, MessageSquare, RefreshCw, RotateCcw } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useSystem } from "@/contexts/SystemContext";
+import { showError, showSuccess } from "@/utils/toast";
+import { buildPowerRequest, Power } from "@/lib/powers";
+import { formatDateTime, prettyJson } from "@/lib/conversations";
+
+// Linha da tabela power_executions (migração 0025)
+interface PowerExecution {
+  id: string;
+  power_id: string | null;
+  conversation_id: string | null;
+  source: "assistant" | "system" | "rerun";
+  arguments: Record<string, unknown> | null;
+  method: string;
+  url: string;
+  status_code: number | null;
+  duration_ms: number | null;
+  response: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+interface PowerExecutionsProps {
+  workspaceId: string;
+  powers: Power[];
+  // "all" ou o id do poder selecionado; controlado pela página para o atalho "Execuções" de cada poder
+  powerId: string;
+  onPowerChange: (powerId: string) => void;
+}
+
+const PAGE_SIZE = 20;
+
+const SOURCE_LABELS: Record<PowerExecution["source"], string> = {
+  assistant: "Assistente",
+  system: "Sistema",
+  rerun: "Reexecução",
+};
+
+const PowerExecutions: React.FC<PowerExecutionsProps> = ({ workspaceId, powers, powerId, onPowerChange }) => {
+  const { systemVariables } = useSystem();
+  const [executions, setExecutions] = useState<PowerExecution[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(0);
+  const [status, setStatus] = useState<"all" | "success" | "error">("all");
+  const [source, setSource] = useState<"all" | PowerExecution["source"]>("all");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [rerunningId, setRerunningId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    // Uma resposta que chega depois de outra mudança de filtro é descartada
+    let cancelled = false;
+    const fetchExecutions = async () => {
+      setLoading(true);
+      // Execuções de poderes do sistema ficam registradas, mas esta aba mostra só os poderes da IA
+      let query = supabase
+        .from("power_executions")
+        .select("id, power_id, conversation_id, source, arguments, method, url, status_code, duration_ms, response, error, created_at", { count: "exact" })
+        .eq("workspace_id", workspaceId)
+        .not("power_id", "is", null)
+        .order("created_at", { ascending: false })
+        .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+
+      if (powerId !== "all") query = query.eq("power_id", powerId);
+      if (status === "success") query = query.is("error", null);
+      if (status === "error") query = query.not("error", "is", null);
+      if (source !== "all") query = query.eq("source", source);
+
+      const { data, error, count } = await query;
+      if (cancelled) return;
+      if (error) {
+        showError("Erro ao carregar execuções.");
+        console.error(error);
+      } else {
+        setExecutions((data || []) as PowerExecution[]);
+        setTotalCount(count || 0);
+      }
+      setLoading(false);
+    };
+    fetchExecutions();
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, powerId, status, source, page, reloadKey]);
+
+  // Qualquer mudança de filtro volta para a primeira página
+  useEffect(() => {
+    setPage(0);
+  }, [powerId, status, source]);
+
+  // Reexecuta com os mesmos argumentos, usando a definição atual do poder e as variáveis do sistema
+  const handleRerun = async (execution: PowerExecution) => {
+    const power = powers.find((item) => item.id === execution.power_id);
+    if (!power) {
+      showError("Poder não encontrado.");
+      return;
+    }
+    setRerunningId(execution.id);
+    try {
+      const request = { ...buildPowerRequest(power, execution.arguments || {}, systemVariables), source: "rerun" as const };
+      const { data, error } = await supabase.functions.invoke("proxy-api", { body: request });
+      if (error) {
+        showError(`Erro ao reexecutar o poder: ${error.message}`);
+      } else if (data?.ok) {
+        showSuccess(`Poder reexecutado: ${data.status} ${data.statusText}`);
+      } else {
+        showError(`O poder respondeu com erro: ${data?.status} ${data?.statusText}`);
+      }
+    } catch (e) {
+      showError(`Erro ao reexecutar o poder: ${(e as Error).message}`);
+    } finally {
+      setRerunningId(null);
+      setPage(0);
+      setReloadKey((key) => key + 1);
+    }
+  };
+
+  const powerName = (id: string | null) => powers.find((power) => power.id === id)?.name || "Poder excluído";
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader><CardTitle>Filtros</CardTitle></CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <Label htmlFor="executions-power">Poder</Label>
+            <Select onValueChange={onPowerChange} value={powerId}>
+              <SelectTrigger id="executions-power"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos</SelectItem>
+                {powers.map((power) => (<SelectItem key={power.id} value={power.id}>{power.name}</SelectItem>))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="executions-status">Resultado</Label>
+            <Select onValueChange={(value) => setStatus(value as typeof status)} value={status}>
+              <SelectTrigger id="executions-status"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos</SelectItem>
+                <SelectItem value="success">Sucesso</SelectItem>
+                <SelectItem value="error">Erro</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="executions-source">Origem</Label>
+            <Select onValueChange={(value) => setSource(value as typeof source)} value={source}>
+              <SelectTrigger id="executions-source"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas</SelectItem>
+                {Object.entries(SOURCE_LABELS).map(([value, label]) => (<SelectItem key={value} value={value}>{label}</SelectItem>))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Button type="button" variant="outline" size="sm" onClick={() => setReloadKey((key) => key + 1)} disabled={loading}>
+              <RefreshCw className="mr-2 h-4 w-4" /> Atualizar
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader><CardTitle>Execuções ({totalCount})</CardTitle></CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (<p className="text-muted-foreground">Carregando execuções...</p>) : executions.length === 0 ? (
+            <p className="text-muted-foreground">Nenhuma execução registrada.</p>
+          ) : (
+            <div className="space-y-2">
+              {executions.map((execution) => {
+                const expanded = expandedId === execution.id;
+                return (
+                  <div key={execution.id} className="p-3 border rounded-md space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="space-y-1 min-w-0">
+                        <p className="font-semibold">
+                          {powerName(execution.power_id)}
+                          <Badge variant={execution.error ? "destructive" : "default"} className="ml-2">{execution.status_code ?? "Falhou"}</Badge>
+                          <Badge variant="outline" className="ml-2">{SOURCE_LABELS[execution.source]}</Badge>
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {formatDateTime(execution.created_at)} · {execution.duration_ms ?? "?"} ms · {execution.method} {execution.url}
+                        </p>
+                      </div>
+                      <div className="flex space-x-2 shrink-0">
+                        {execution.conversation_id && (
+                          <Button asChild variant="ghost" size="sm">
+                            <Link to={`/admin/conversations/${execution.conversation_id}`}><MessageSquare className="h-4 w-4" /></Link>
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => handleRerun(execution)} disabled={rerunningId !== null || !powers.some((power) => power.id === execution.power_id)}>
+                          <RotateCcw className="mr-2 h-4 w-4" /> {rerunningId === execution.id ? "Reexecutando..." : "Reexecutar"}
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setExpandedId(expanded ? null : execution.id)}>
+                          {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        </Button>
+                      </div>
+                    </div>
+                    {expanded && (
+                      <div className="space-y-2 text-sm">
+                        <div>
+                          <p className="font-semibold">Argumentos:</p>
+                          <pre className="bg-gray-100 dark:bg-gray-800 p-2 rounded-md text-xs overflow-auto">{JSON.stringify(execution.arguments || {}, null, 2)}</pre>
+                        </div>
+                        {execution.error && (
+                          <div>
+                            <p className="font-semibold text-destructive">Erro:</p>
+                            <pre className="bg-red-100 dark:bg-red-900 p-2 rounded-md text-xs overflow-auto">{execution.error}</pre>
+                          </div>
+                        )}
+                        {execution.response && (
+                          <div>
+                            <p className="font-semibold">Resposta (truncada em 4000 caracteres):</p>
+                            <pre className="bg-gray-100 dark:bg-gray-800 p-2 rounded-md text-xs overflow-auto max-h-64">{prettyJson(execution.response)}</pre>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">Página {page + 1} de {totalPages}</p>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || loading}><ChevronLeft className="h-4 w-4" /> Anterior</Button>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= totalPages || loading}>Próxima <ChevronRight className="h-4 w-4" /></Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PowerExecutions;
@@ -0,0 +1,166 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Terminal } from "lucide-react";
+import { showError } from "@/utils/toast";
+import { PowerDraft } from "@/lib/openapi";
+import { ImportedRequest, parseCurlCommand, parsePostmanCollection } from "@/lib/requestImport";
+
+interface RequestImportDialogProps {
+  // Variáveis do sistema: {{nome}} com esses nomes fica como placeholder e não vira parâmetro
+  reservedNames: string[];
+  // Abre o rascunho no editor de poderes, com os avisos para revisão
+  onImport: (power: PowerDraft, warnings: string[]) => void;
+}
+
+const RequestImportDialog: React.FC<RequestImportDialogProps> = ({ reservedNames, onImport }) => {
+  const [open, setOpen] = useState(false);
+  const [sourceType, setSourceType] = useState<"curl" | "postman">("curl");
+  const [curlCommand, setCurlCommand] = useState("");
+  const [collection, setCollection] = useState("");
+  const [requests, setRequests] = useState<ImportedRequest[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) {
+      setCurlCommand("");
+      setCollection("");
+      setRequests([]);
+      setSelectedIndex(0);
+    }
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      setCollection(String(reader.result || ""));
+      setRequests([]);
+    };
+    reader.onerror = () => showError("Erro ao ler o arquivo.");
+    reader.readAsText(file);
+    event.target.value = "";
+  };
+
+  const handleParse = () => {
+    try {
+      const parsed = sourceType === "curl"
+        ? [parseCurlCommand(curlCommand, reservedNames)]
+        : parsePostmanCollection(collection, reservedNames);
+      setRequests(parsed);
+      setSelectedIndex(0);
+    } catch (e) {
+      showError((e as Error).message);
+    }
+  };
+
+  const handleOpenInEditor = () => {
+    const request = requests[selectedIndex];
+    if (!request) return;
+    onImport(request.power, request.warnings);
+    handleOpenChange(false);
+  };
+
+  const selected = requests[selectedIndex];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm"><Terminal className="mr-2 h-4 w-4" /> Importar cURL/Postman</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar Poder de cURL ou Postman</DialogTitle>
+          <DialogDescription>
+            Método, URL, cabeçalhos e corpo são preenchidos no editor para revisão. Variáveis {"{{nome}}"} viram
+            parâmetros que a IA preenche.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={sourceType} onValueChange={(value) => { setSourceType(value as "curl" | "postman"); setRequests([]); }}>
+          <TabsList>
+            <TabsTrigger value="curl">cURL</TabsTrigger>
+            <TabsTrigger value="postman">Coleção do Postman</TabsTrigger>
+          </TabsList>
+          <TabsContent value="curl">
+            <Label htmlFor="import-curl">Comando cURL</Label>
+            <Textarea
+              id="import-curl"
+              rows={8}
+              className="font-mono text-xs"
+              placeholder={"curl -X POST 'https://api.exemplo.com/pedidos' \\\n  -H 'Content-Type: application/json' \\\n  -d '{\"produto\": \"{{produto}}\"}'"}
+              value={curlCommand}
+              onChange={(event) => { setCurlCommand(event.target.value); setRequests([]); }}
+            />
+          </TabsContent>
+          <TabsContent value="postman">
+            <Label htmlFor="import-postman">Coleção (Collection v2.1, JSON)</Label>
+            <Textarea
+              id="import-postman"
+              rows={8}
+              className="font-mono text-xs"
+              placeholder='{"info": {...}, "item": [...]}'
+              value={collection}
+              onChange={(event) => { setCollection(event.target.value); setRequests([]); }}
+            />
+            <Input type="file" accept=".json,application/json" className="mt-2" onChange={handleFile} />
+          </TabsContent>
+        </Tabs>
+        <div>
+          <Button type="button" variant="secondary" onClick={handleParse} disabled={!(sourceType === "curl" ? curlCommand : collection).trim()}>Analisar</Button>
+        </div>
+
+        {requests.length > 1 && (
+          <div className="space-y-2 max-h-60 overflow-y-auto rounded-md border p-2">
+            {requests.map((request, index) => (
+              <button
+                key={`${request.label}-${index}`}
+                type="button"
+                onClick={() => setSelectedIndex(index)}
+                className={`w-full text-left p-2 rounded-md hover:bg-muted ${index === selectedIndex ? "bg-muted" : ""}`}
+              >
+                <p className="font-semibold">{request.label}<Badge variant="outline" className="ml-2">{request.power.method}</Badge></p>
+                <p className="text-xs text-muted-foreground truncate">{request.power.url}</p>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {selected && (
+          <div className="space-y-2 text-sm">
+            <p><span className="font-semibold">{selected.power.method}</span> <span className="font-mono break-all">{selected.power.url}</span></p>
+            <p className="text-muted-foreground">
+              Parâmetros: {Object.keys(selected.power.parameters_schema.properties || {}).join(", ") || "nenhum"}
+            </p>
+            {selected.warnings.length > 0 && (
+              <ul className="list-disc pl-5 text-amber-700 dark:text-amber-400">
+                {selected.warnings.map((warning) => (<li key={warning}>{warning}</li>))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" onClick={handleOpenInEditor} disabled={!selected}>Abrir no Editor</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RequestImportDialog;
@@ -2,57 +2,76 @@
 
 import React, { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
-import { Volume2, Mic, StopCircle } from "lucide-react";
+import { Volume2, Mic, StopCircle, Headset, ShieldQuestion } from "lucide-react";
 import { showSuccess, showError } from "@/utils/toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useSession } from "@/contexts/SessionContext";
 import { useSystem } from "@/contexts/SystemContext";
-import { replacePlaceholders } from "@/lib/utils"; // Importar a função utilitária
+import { createOrchestrator, isInterruption, AssistantStatus, ConfirmAction, ConfirmationResult, Orchestrator, OrchestratorConfig, OrchestratorEvent, ChatMessage, LlmTransport } from "@/lib/orchestrator";
+import { createLlmTransport } from "@/lib/llm";
+import { createProxyPowerExecutor, parsePowerArguments, powersToTools, Power } from "@/lib/powers";
+import { createSentenceSplitter, SentenceSplitter } from "@/lib/sentences";
+import { synthesizeSpeech, SpeechModel } from "@/lib/tts";
+import { createAiProxy, AiProxyInvoker } from "@/lib/aiProxy";
+import { createMessageRecorder, MessageRecorder } from "@/lib/messageLog";
+import { CONFIRMATION_RETRY, describePowerAction, parseConfirmationAnswer } from "@/lib/confirmation";
+import {
+  LiveAssistantState,
+  OPERATOR_MESSAGE_EVENT,
+  OperatorMessagePayload,
+  TAKEOVER_EVENT,
+  conversationChannelName,
+} from "@/lib/liveConversations";
 
 interface VoiceAssistantProps {
   welcomeMessage?: string;
-  openAiApiKey: string;
+  workspaceId: string | null;
   systemPrompt?: string;
   assistantPrompt?: string;
   model?: string;
   conversationMemoryLength: number;
   voiceModel: "browser" | "openai-tts" | "gemini-tts";
-  openaiTtsVoice?: string;
+  hasOpenAiApiKey?: boolean;
+  hasGeminiApiKey?: boolean;
   activationPhrase: string;
+  maxToolSteps?: number;
 }
 
-interface Message {
-  role: "user" | "assistant" | "system" | "tool";
-  content: string;
-  tool_calls?: any[];
-  tool_call_id?: string;
+interface SpeechSegment {
+  text: string;
+  audio: Promise<string | null>;
+  generation: number;
 }
 
-interface Power {
-  id: string;
-  name: string;
-  description: string | null;
-  method: string;
-  url: string | null;
-  headers: Record<string, string> | null;
-  body: Record<string, any> | null;
-  api_key_id: string | null;
-  parameters_schema: Record<string, any> | null;
-}
+const STILL_WORKING_CUE = "Só um instante, ainda estou trabalhando nisso.";
+// Palavras reconhecidas (parciais) necessárias para considerar que o usuário interrompeu a IA
+const BARGE_IN_MIN_WORDS = 2;
+// Sem resposta nesse prazo, a ação que pedia confirmação é cancelada
+const CONFIRMATION_TIMEOUT_MS = 30000;
+
+const invokeAiProxy: AiProxyInvoker = (payload) => supabase.functions.invoke('ai-proxy', { body: payload });
 
-const OPENAI_TTS_API_URL = "https://api.openai.com/v1/audio/speech";
-const OPENAI_CHAT_COMPLETIONS_URL = "https://api.openai.com/v1/chat/completions";
+const normalizeSpeech = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\w\s]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
 
 const VoiceAssistant: React.FC<VoiceAssistantProps> = ({
   welcomeMessage = "Bem-vindo ao site! Diga 'ativar' para começar a conversar.",
-  openAiApiKey,
+  workspaceId,
   systemPrompt = "Você é Intra, a IA da Intratégica. Empresa de automações, desenvolvimento de IAs e sistemas.",
   assistantPrompt = "Você é um assistente amigável e profissional que ajuda agências de tecnologia a automatizar processos e criar soluções de IA personalizadas.",
   model = "gpt-4o-mini",
   conversationMemoryLength,
   voiceModel,
-  openaiTtsVoice = "alloy",
+  hasOpenAiApiKey = false,
+  hasGeminiApiKey = false,
   activationPhrase,
+  maxToolSteps = 5,
 }) => {
   const { workspace } = useSession();
   const { systemVariables, loadingSystemContext } = useSystem();
@@ -62,10 +81,12 @@ const VoiceAssistant: React.FC<VoiceAssistantProps> = ({
   const [transcript, setTranscript] = useState("");
   const [aiResponse, setAiResponse] = useState("");
   const [conversationId, setConversationId] = useState<string | null>(null);
-  const [messageHistory, setMessageHistory] = useState<Message[]>([]);
+  const [messageHistory, setMessageHistory] = useState<ChatMessage[]>([]);
   const [activated, setActivated] = useState(false);
   const [initialGreetingSpoken, setInitialGreetingSpoken] = useState(false);
   const [powers, setPowers] = useState<Power[]>([]);
+  const [assistantStatus, setAssistantStatus] = useState<AssistantStatus>("idle");
+  const [humanTakeover, setHumanTakeover] = useState(false);
 
   const recognitionRef = useRef<SpeechRecognition | null>(null);
   const synthRef = useRef<SpeechSynthesis | null>(null);
@@ -73,6 +94,29 @@ const VoiceAssistant: React.FC<VoiceAssistantProps> = ({
   const isRecognitionActive = useRef(false);
   const isSpeakingRef = useRef(false);
   const restartTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const orchestratorRef = useRef<Orchestrator | null>(null);
+  const speechQueueRef = useRef<SpeechSegment[]>([]);
+  const speechDrainRef = useRef<Promise<void> | null>(null);
+  const speechGenerationRef = useRef(0);
+  const finishSegmentRef = useRef<(() => void) | null>(null);
+  const sentenceSplitterRef = useRef<SentenceSplitter | null>(null);
+  const streamedTextRef = useRef("");
+  const spokenTextRef = useRef("");
+  const isProcessingRef = useRef(false);
+  const speakingAnswerRef = useRef(false);
+  const runIdRef = useRef(0);
+  // Conversa que está recebendo mensagens; fica nula depois de encerrada
+  const activeConversationRef = useRef<string | null>(null);
+  const recorderRef = useRef<MessageRecorder | null>(null);
+  const runningPowersRef = useRef<string[]>([]);
+  // Atendimento humano: enquanto ativo, as falas do usuário não acionam a IA
+  const humanTakeoverRef = useRef(false);
+  // Poder aguardando o "sim" ou "não" do usuário; a próxima fala reconhecida responde a confirmação
+  const pendingConfirmationRef = useRef<{ resolve: (result: ConfirmationResult) => void } | null>(null);
+  const takeoverHandlersRef = useRef<{
+    onTakeover: (active: boolean) => void;
+    onOperatorMessage: (content: string) => void;
+  } | null>(null);
 
   useEffect(() => {
     if (workspace?.id) {
@@ -104,11 +148,14 @@ const VoiceAssistant: React.FC<VoiceAssistantProps> = ({
   };
 
   const startListening = () => {
-    if (recognitionRef.current && !isRecognitionActive.current && !isSpeakingRef.current) {
+    // A escuta também roda durante a fala da IA, para permitir que o usuário a interrompa (barge-in)
+    if (recognitionRef.current && !isRecognitionActive.current) {
       try {
         recognitionRef.current.start();
-        setTranscript("");
-        setAiResponse("");
+        if (!isSpeakingRef.current && !isProcessingRef.current) {
+          setTranscript("");
+          setAiResponse("");
+        }
         console.log("[VoiceAssistant] Iniciando escuta");
       } catch (error) {
         if (error instanceof DOMException && error.name === "InvalidStateError") {
@@ -135,6 +182,9 @@ const VoiceAssistant: React.FC<VoiceAssistantProps> = ({
   };
 
   const stopSpeaking = () => {
+    // Invalida a fila atual: trechos pendentes são descartados e o trecho em reprodução é encerrado
+    speechGenerationRef.current += 1;
+    speechQueueRef.current = [];
     if (synthRef.current && synthRef.current.speaking) {
       synthRef.current.cancel();
     }
@@ -142,240 +192,324 @@ const VoiceAssistant: React.FC<VoiceAssistantProps> = ({
       audioRef.current.pause();
       audioRef.current.currentTime = 0;
     }
+    finishSegmentRef.current?.();
     setIsSpeaking(false);
     isSpeakingRef.current = false;
     console.log("[VoiceAssistant] Fala parada");
   };
 
-  const speak = async (text: string, onEndCallback?: () => void) => {
-    if (!text) {
-      onEndCallback?.();
-      return;
+  const usesAudioSpeech = () =>
+    (voiceModel === "openai-tts" && hasOpenAiApiKey) || (voiceModel === "gemini-tts" && hasGeminiApiKey);
+
+  // Para OpenAI/Gemini TTS o áudio já é baixado ao entrar na fila, enquanto os trechos anteriores ainda tocam
+  const prepareSpeechAudio = async (text: string): Promise<string | null> => {
+    if (!usesAudioSpeech() || !workspaceId) return null;
+    try {
+      const audioBlob = await synthesizeSpeech(
+        voiceModel as SpeechModel,
+        text,
+        createAiProxy(workspaceId, invokeAiProxy, activeConversationRef.current).sendSpeech,
+      );
+      return URL.createObjectURL(audioBlob);
+    } catch (error: any) {
+      console.error("[VoiceAssistant] Erro de síntese de fala:", error);
+      showError(error.message);
+      return null;
     }
+  };
 
-    stopSpeaking();
+  // Reproduz um trecho e resolve quando ele termina (ou é interrompido por stopSpeaking)
+  const playSegment = (segment: SpeechSegment) =>
+    new Promise<void>((resolve) => {
+      const onSpeechError = (error: any) => {
+        console.error("[VoiceAssistant] Erro de síntese de fala:", error);
+        showError(`Erro de fala: ${error}`);
+        resolve();
+      };
+      finishSegmentRef.current = resolve;
+      console.log("[VoiceAssistant] Iniciando fala:", segment.text);
+
+      if (voiceModel === "browser" && synthRef.current) {
+        const utterance = new SpeechSynthesisUtterance(segment.text);
+        utterance.lang = "pt-BR";
+        utterance.onend = () => resolve();
+        utterance.onerror = (event) => {
+          if (event.error === "interrupted" || event.error === "canceled") resolve();
+          else onSpeechError(event.error);
+        };
+        try {
+          synthRef.current.speak(utterance);
+        } catch (error) {
+          onSpeechError(error);
+        }
+      } else if (usesAudioSpeech()) {
+        segment.audio.then((audioUrl) => {
+          if (!audioUrl || segment.generation !== speechGenerationRef.current) {
+            if (audioUrl) URL.revokeObjectURL(audioUrl);
+            resolve();
+            return;
+          }
 
+          if (audioRef.current) {
+            audioRef.current.src = audioUrl;
+          } else {
+            audioRef.current = new Audio(audioUrl);
+          }
+
+          audioRef.current.onended = () => {
+            URL.revokeObjectURL(audioUrl);
+            resolve();
+          };
+          audioRef.current.onerror = () => {
+            URL.revokeObjectURL(audioUrl);
+            onSpeechError("Erro ao reproduzir áudio da IA.");
+          };
+          // Bloqueio de autoplay ou áudio que não decodifica: sem o catch o trecho nunca termina e a fila trava
+          audioRef.current.play().catch((error: unknown) => {
+            URL.revokeObjectURL(audioUrl);
+            // AbortError vem de stopSpeaking (pause/troca de src), que já encerrou o trecho
+            if (error instanceof DOMException && error.name === "AbortError") resolve();
+            else onSpeechError(error instanceof Error ? error.message : error);
+          });
+        });
+      } else {
+        showError("Modelo de voz não suportado ou chave API ausente.");
+        resolve();
+      }
+    });
+
+  const drainSpeechQueue = async () => {
     setIsSpeaking(true);
     isSpeakingRef.current = true;
-    console.log("[VoiceAssistant] Iniciando fala:", text);
-
-    const onSpeechEnd = () => {
-      setIsSpeaking(false);
-      isSpeakingRef.current = false;
-      console.log("[VoiceAssistant] Fala finalizada");
-      onEndCallback?.();
-    };
+    while (speechQueueRef.current.length > 0) {
+      const segment = speechQueueRef.current.shift()!;
+      spokenTextRef.current = spokenTextRef.current ? `${spokenTextRef.current} ${segment.text}` : segment.text;
+      await playSegment(segment);
+    }
+    setIsSpeaking(false);
+    isSpeakingRef.current = false;
+    console.log("[VoiceAssistant] Fala finalizada");
+  };
 
-    const onSpeechError = (error: any) => {
-      console.error("[VoiceAssistant] Erro de síntese de fala:", error);
-      showError(`Erro de fala: ${error}`);
-      onSpeechEnd();
-    };
+  const startSpeechDrain = () => {
+    speechDrainRef.current = drainSpeechQueue().finally(() => {
+      speechDrainRef.current = null;
+      // Trechos que chegaram enquanto a reprodução anterior encerrava
+      if (speechQueueRef.current.length > 0) startSpeechDrain();
+    });
+  };
 
-    if (voiceModel === "browser" && synthRef.current) {
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = "pt-BR";
-      utterance.onend = onSpeechEnd;
-      utterance.onerror = (event) => onSpeechError(event.error);
-      try {
-        synthRef.current.speak(utterance);
-      } catch (error) {
-        onSpeechError(error);
-      }
-    } else if (voiceModel === "openai-tts" && openAiApiKey) {
-      try {
-        const response = await fetch(OPENAI_TTS_API_URL, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${openAiApiKey}`,
-          },
-          body: JSON.stringify({
-            model: "tts-1",
-            voice: openaiTtsVoice || "alloy",
-            input: text,
-          }),
-        });
+  // Coloca um trecho na fila de fala; os trechos são reproduzidos na ordem em que chegam
+  const enqueueSpeech = (text: string) => {
+    if (!text.trim()) return;
+    speechQueueRef.current.push({ text, audio: prepareSpeechAudio(text), generation: speechGenerationRef.current });
+    if (!speechDrainRef.current) startSpeechDrain();
+  };
 
-        if (!response.ok) {
-          const errorData = await response.json();
-          onSpeechError(`OpenAI TTS: ${errorData.error?.message || response.statusText}`);
-          return;
-        }
+  // Resolve com true quando toda a fila foi falada, ou false se a fala foi interrompida
+  const waitForSpeech = async () => {
+    const generation = speechGenerationRef.current;
+    while (speechDrainRef.current) {
+      await speechDrainRef.current;
+    }
+    return generation === speechGenerationRef.current;
+  };
 
-        const audioBlob = await response.blob();
-        const audioUrl = URL.createObjectURL(audioBlob);
+  // Falas fixas do assistente (boas-vindas, ativação); não fazem parte do histórico da conversa
+  const speak = async (text: string, onEndCallback?: () => void) => {
+    stopSpeaking();
+    spokenTextRef.current = "";
+    speakingAnswerRef.current = false;
+    enqueueSpeech(text);
+    if (await waitForSpeech()) {
+      onEndCallback?.();
+    }
+  };
 
-        if (audioRef.current) {
-          audioRef.current.src = audioUrl;
-        } else {
-          audioRef.current = new Audio(audioUrl);
+  const handleOrchestratorEvent = (event: OrchestratorEvent) => {
+    recorderRef.current?.handleEvent(event);
+    switch (event.type) {
+      case "history":
+        setMessageHistory(event.history);
+        break;
+      case "message":
+        if (event.message.tool_calls?.length) {
+          runningPowersRef.current = event.message.tool_calls.map((toolCall) => toolCall.function.name);
         }
-
-        audioRef.current.onended = () => {
-          onSpeechEnd();
-          URL.revokeObjectURL(audioUrl);
-        };
-        audioRef.current.onerror = () => {
-          onSpeechError("Erro ao reproduzir áudio da IA.");
-          URL.revokeObjectURL(audioUrl);
-        };
-        audioRef.current.play();
-      } catch (error) {
-        onSpeechError(error);
-      }
-    } else if (voiceModel === "gemini-tts") {
-      showError("Gemini TTS ainda não está implementado.");
-      onSpeechEnd();
-    } else {
-      showError("Modelo de voz não suportado ou chave API ausente.");
-      onSpeechEnd();
+        break;
+      case "status":
+        setAssistantStatus(event.status);
+        if (event.status === "executing_power") {
+          streamedTextRef.current = "";
+          setAiResponse("Executando poder...");
+        }
+        break;
+      case "delta":
+        streamedTextRef.current += event.text;
+        setAiResponse(streamedTextRef.current);
+        sentenceSplitterRef.current?.push(event.text);
+        break;
+      case "still_working":
+        sentenceSplitterRef.current?.flush();
+        enqueueSpeech(STILL_WORKING_CUE);
+        break;
     }
   };
 
-  const runConversation = async (userInput: string) => {
-    if (!openAiApiKey) {
-      showError("Chave API OpenAI não configurada.");
-      setAiResponse("Por favor, configure sua chave API OpenAI nas configurações.");
-      startListening();
+  // Poderes marcados com requires_confirmation: fala o resumo da ação e só segue depois da resposta do usuário
+  const confirmPowerAction: ConfirmAction = (toolCall, signal) => {
+    const power = powers.find((item) => item.name === toolCall.function.name);
+    if (!power?.requires_confirmation) return null;
+    // Argumentos inválidos não chegam a ser executados: o executor devolve o erro à IA sem perguntar nada ao usuário
+    const { args } = parsePowerArguments(power, toolCall.function.arguments);
+    if (!args) return null;
+    const question = describePowerAction(power, args);
+
+    return new Promise<ConfirmationResult>((resolve) => {
+      const finish = (result: ConfirmationResult) => {
+        clearTimeout(timeout);
+        signal.removeEventListener("abort", cancel);
+        if (pendingConfirmationRef.current?.resolve === finish) pendingConfirmationRef.current = null;
+        resolve(result);
+      };
+      const cancel = () => finish({ approved: false });
+      const timeout = setTimeout(cancel, CONFIRMATION_TIMEOUT_MS);
+      signal.addEventListener("abort", cancel);
+      pendingConfirmationRef.current = { resolve: finish };
+      sentenceSplitterRef.current?.flush();
+      setAiResponse(question);
+      enqueueSpeech(question);
+    });
+  };
+
+  const handleConfirmationAnswer = (answer: string) => {
+    const pending = pendingConfirmationRef.current;
+    if (!pending) return;
+    const approved = parseConfirmationAnswer(answer);
+    stopSpeaking();
+    if (approved === null) {
+      enqueueSpeech(CONFIRMATION_RETRY);
       return;
     }
+    setAiResponse(approved ? "Executando poder..." : "Ação cancelada.");
+    pending.resolve({ approved, answer });
+  };
 
-    console.log("[Orchestrator] Iniciando conversa com input:", userInput);
-    setAiResponse("Processando...");
+  const buildOrchestratorConfig = (transport: LlmTransport): OrchestratorConfig => ({
+    transport,
+    executePower: createProxyPowerExecutor({
+      powers,
+      systemVariables,
+      invoke: (request) => supabase.functions.invoke('proxy-api', { body: request }),
+      conversationId: activeConversationRef.current,
+    }),
+    confirmAction: confirmPowerAction,
+    tools: powersToTools(powers),
+    systemPrompt,
+    assistantPrompt,
+    memoryLength: conversationMemoryLength,
+    maxToolSteps,
+    onEvent: handleOrchestratorEvent,
+  });
+
+  // Trechos reconhecidos que estão contidos no que a IA acabou de falar são o eco do alto-falante, não o usuário.
+  // A comparação é por palavras inteiras, para que um "sim" real não seja confundido com o "assim" da fala.
+  const isLikelyEcho = (transcript: string) => {
+    const heard = normalizeSpeech(transcript);
+    return heard.length > 0 && ` ${normalizeSpeech(spokenTextRef.current)} `.includes(` ${heard} `);
+  };
 
-    const newHistory = [...messageHistory, { role: "user" as const, content: userInput }];
-    setMessageHistory(newHistory);
+  // Barge-in: corta a fala, cancela o turno em andamento e registra a resposta parcial como interrompida
+  const interruptAssistant = () => {
+    const spokenText = spokenTextRef.current;
+    stopSpeaking();
+    if (speakingAnswerRef.current) {
+      orchestratorRef.current?.interrupt(spokenText);
+    }
+    isProcessingRef.current = false;
+    console.log("[VoiceAssistant] Usuário interrompeu a IA. Trecho falado:", spokenText);
+  };
 
-    const tools = powers.map(power => ({
-      type: 'function' as const,
-      function: {
-        name: power.name,
-        description: power.description,
-        parameters: power.parameters_schema,
-      },
-    }));
+  // O orquestrador mantém o histórico entre turnos; a configuração é atualizada com as props atuais
+  const prepareOrchestrator = (workspaceId: string) => {
+    const config = buildOrchestratorConfig(createLlmTransport(model, createAiProxy(workspaceId, invokeAiProxy, activeConversationRef.current).send));
+    if (orchestratorRef.current) {
+      orchestratorRef.current.configure(config);
+    } else {
+      orchestratorRef.current = createOrchestrator(config);
+    }
+    return orchestratorRef.current;
+  };
 
-    try {
-      const messagesForApi = [
-        { role: "system" as const, content: systemPrompt },
-        { role: "assistant" as const, content: assistantPrompt },
-        ...newHistory.slice(-conversationMemoryLength),
-      ];
-
-      const response = await fetch(OPENAI_CHAT_COMPLETIONS_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${openAiApiKey}`,
-        },
-        body: JSON.stringify({
-          model: model,
-          messages: messagesForApi,
-          tools: tools.length > 0 ? tools : undefined,
-          tool_choice: tools.length > 0 ? 'auto' : undefined,
-        }),
-      });
+  // Durante o atendimento humano as falas entram no histórico sem chamar a IA, para ela retomar com o contexto
+  const appendToHistory = (message: ChatMessage) => {
+    if (workspaceId) prepareOrchestrator(workspaceId).append(message);
+  };
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`Erro OpenAI: ${errorData.error?.message || response.statusText}`);
-      }
+  const applyTakeover = (active: boolean) => {
+    if (humanTakeoverRef.current === active) return;
+    humanTakeoverRef.current = active;
+    setHumanTakeover(active);
+    // Uma resposta da IA em andamento é descartada quando o atendente assume
+    if (active && isProcessingRef.current) interruptAssistant();
+    console.log(`[VoiceAssistant] Atendimento humano ${active ? "iniciado" : "encerrado"}.`);
+  };
 
-      const data = await response.json();
-      const responseMessage = data.choices?.[0]?.message;
-
-      if (responseMessage.tool_calls) {
-        setAiResponse("Executando poder...");
-        console.log("[Orchestrator] IA solicitou o uso de poderes:", responseMessage.tool_calls);
-        
-        const historyWithToolCall = [...newHistory, responseMessage];
-        setMessageHistory(historyWithToolCall);
-
-        const toolOutputs = [];
-        for (const toolCall of responseMessage.tool_calls) {
-          const functionName = toolCall.function.name;
-          const functionArgs = JSON.parse(toolCall.function.arguments);
-          const powerToExecute = powers.find(p => p.name === functionName);
-
-          if (powerToExecute) {
-            console.log(`[Orchestrator] Executando poder: ${functionName} com args:`, functionArgs);
-            
-            let url = replacePlaceholders(powerToExecute.url || '', systemVariables);
-            Object.keys(functionArgs).forEach(key => {
-              const placeholder = `{${key}}`;
-              url = url.replace(new RegExp(placeholder, 'g'), encodeURIComponent(functionArgs[key]));
-            });
-
-            let body = powerToExecute.body;
-            if (body) {
-              body = JSON.parse(replacePlaceholders(JSON.stringify(body), systemVariables));
-            }
-
-            const { data: toolResult, error: invokeError } = await supabase.functions.invoke('proxy-api', {
-              body: {
-                url: url,
-                method: powerToExecute.method,
-                headers: powerToExecute.headers,
-                body: body,
-              },
-            });
-
-            const content = invokeError ? JSON.stringify({ error: invokeError.message }) : JSON.stringify(toolResult);
-            toolOutputs.push({
-              tool_call_id: toolCall.id,
-              role: 'tool' as const,
-              name: functionName,
-              content: content,
-            });
-          }
-        }
+  // A resposta do atendente já foi gravada pelo admin; aqui ela só é falada e entra no histórico da IA
+  const handleOperatorMessage = (content: string) => {
+    appendToHistory({ role: "assistant", content });
+    setAiResponse(content);
+    speakingAnswerRef.current = false;
+    enqueueSpeech(content);
+  };
 
-        console.log("[Orchestrator] Enviando resultados dos poderes para a IA.");
-        const historyWithToolResults = [...historyWithToolCall, ...toolOutputs];
-        setMessageHistory(historyWithToolResults);
-
-        const secondResponse = await fetch(OPENAI_CHAT_COMPLETIONS_URL, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${openAiApiKey}`,
-          },
-          body: JSON.stringify({
-            model: model,
-            messages: historyWithToolResults,
-          }),
-        });
+  takeoverHandlersRef.current = { onTakeover: applyTakeover, onOperatorMessage: handleOperatorMessage };
 
-        if (!secondResponse.ok) {
-          const errorData = await secondResponse.json();
-          throw new Error(`Erro OpenAI (2ª chamada): ${errorData.error?.message || secondResponse.statusText}`);
-        }
+  const runConversation = async (userInput: string) => {
+    // Sem configurações salvas não há chave no servidor para atender a chamada
+    if (!workspaceId) {
+      showError("Configurações do assistente não encontradas.");
+      setAiResponse("Por favor, salve as configurações do assistente no painel administrativo.");
+      startListening();
+      return;
+    }
+    const orchestrator = prepareOrchestrator(workspaceId);
 
-        const secondData = await secondResponse.json();
-        const finalMessage = secondData.choices?.[0]?.message?.content;
-        
-        console.log("[Orchestrator] Resposta final da IA:", finalMessage);
-        setAiResponse(finalMessage);
-        setMessageHistory(prev => [...prev, { role: 'assistant', content: finalMessage }]);
-        await speak(finalMessage, () => {
-          if (activated) startListening();
-        });
+    const runId = ++runIdRef.current;
+    isProcessingRef.current = true;
+    setAiResponse("Processando...");
+    stopSpeaking();
+    spokenTextRef.current = "";
+    speakingAnswerRef.current = true;
+    streamedTextRef.current = "";
+    // Cada frase completa da resposta em streaming vai direto para a fila de fala
+    const splitter = createSentenceSplitter(enqueueSpeech);
+    sentenceSplitterRef.current = splitter;
 
-      } else {
-        const assistantMessage = responseMessage.content;
-        console.log("[Orchestrator] Resposta direta da IA:", assistantMessage);
-        setAiResponse(assistantMessage);
-        setMessageHistory(prev => [...prev, { role: 'assistant', content: assistantMessage }]);
-        await speak(assistantMessage, () => {
-          if (activated) startListening();
-        });
+    try {
+      const answer = await orchestrator.run(userInput);
+      setAiResponse(answer);
+      // Sem streaming nenhum trecho foi falado ainda, então a resposta inteira entra na fila
+      if (!streamedTextRef.current) splitter.push(answer);
+      splitter.flush();
+      if (await waitForSpeech()) {
+        if (activated) startListening();
       }
     } catch (error: any) {
+      if (isInterruption(error)) {
+        console.log("[Orchestrator] Turno cancelado por interrupção do usuário.");
+        return;
+      }
       showError(error.message);
       setAiResponse("");
       console.error("[Orchestrator] Erro no fluxo da conversa:", error);
       startListening();
+    } finally {
+      // Um turno cancelado não pode limpar o estado do turno que o substituiu
+      if (runIdRef.current === runId) {
+        sentenceSplitterRef.current = null;
+        isProcessingRef.current = false;
+      }
     }
   };
 
@@ -389,7 +523,7 @@ const VoiceAssistant: React.FC<VoiceAssistantProps> = ({
 
     recognitionRef.current = new SpeechRecognitionConstructor();
     recognitionRef.current.continuous = true;
-    recognitionRef.current.interimResults = false;
+    recognitionRef.current.interimResults = true;
     recognitionRef.current.lang = "pt-BR";
 
     recognitionRef.current.onstart = () => {
@@ -400,28 +534,65 @@ const VoiceAssistant: React.FC<VoiceAssistantProps> = ({
     };
 
     recognitionRef.current.onresult = (event) => {
-      const currentTranscript = event.results[event.results.length - 1][0].transcript.trim().toLowerCase();
+      const result = event.results[event.results.length - 1];
+      const currentTranscript = result[0].transcript.trim().toLowerCase();
+
+      // Resultados parciais servem só para cortar a fala da IA assim que o usuário começa a falar
+      if (!result.isFinal) {
+        const words = currentTranscript.split(/\s+/).filter(Boolean).length;
+        if (activated && isSpeakingRef.current && words >= BARGE_IN_MIN_WORDS && !isLikelyEcho(currentTranscript)) {
+          // Durante uma confirmação o turno continua: só a pergunta é cortada
+          if (pendingConfirmationRef.current) stopSpeaking();
+          else interruptAssistant();
+        }
+        return;
+      }
+
       setTranscript(currentTranscript);
       console.log("[VoiceAssistant] Reconhecido:", currentTranscript);
 
       if (currentTranscript.includes("parar de falar")) {
+        pendingConfirmationRef.current?.resolve({ approved: false, answer: currentTranscript });
         stopListening();
         stopSpeaking();
         setActivated(false);
+        endConversation("ended");
         return;
       }
 
       if (!activated) {
         if (currentTranscript.includes(activationPhrase.toLowerCase())) {
           setActivated(true);
-          speak("Assistente ativado. Pode falar.", () => {
+          const greet = () => speak("Assistente ativado. Pode falar.", () => {
             startListening();
           });
+          // Depois de um "parar de falar", a reativação começa uma conversa nova; o ai-proxy só atende
+          // conversas ativas, então a fala espera a conversa ser criada
+          if (conversationId && !activeConversationRef.current) createConversation().then(greet);
+          else greet();
         } else {
           console.log("[VoiceAssistant] Não ativado. Aguardando frase de ativação.");
         }
       } else {
-        stopListening();
+        // Resposta à confirmação de um poder: o turno em andamento está aguardando justamente esta fala
+        if (pendingConfirmationRef.current) {
+          if (isSpeakingRef.current && isLikelyEcho(currentTranscript)) return;
+          handleConfirmationAnswer(currentTranscript);
+          return;
+        }
+        if (isSpeakingRef.current || isProcessingRef.current) {
+          if (isLikelyEcho(currentTranscript)) {
+            console.log("[VoiceAssistant] Ignorando eco da própria fala:", currentTranscript);
+            return;
+          }
+          interruptAssistant();
+        }
+        if (humanTakeoverRef.current) {
+          const userMessage: ChatMessage = { role: "user", content: currentTranscript };
+          appendToHistory(userMessage);
+          recorderRef.current?.handleEvent({ type: "message", message: userMessage });
+          return;
+        }
         runConversation(currentTranscript);
       }
     };
@@ -430,7 +601,7 @@ const VoiceAssistant: React.FC<VoiceAssistantProps> = ({
       isRecognitionActive.current = false;
       setIsListening(false);
       console.log("[VoiceAssistant] Reconhecimento finalizado");
-      if (activated && !isSpeakingRef.current) {
+      if (activated) {
         console.log("[VoiceAssistant] Reiniciando escuta via onend fallback.");
         startListening();
       }
@@ -441,7 +612,7 @@ const VoiceAssistant: React.FC<VoiceAssistantProps> = ({
       showError(`Erro de voz: ${event.error}`);
       isRecognitionActive.current = false;
       setIsListening(false);
-      if (activated && !isSpeakingRef.current) {
+      if (activated) {
         console.log("[VoiceAssistant] Reiniciando escuta após erro.");
         startListening();
       }
@@ -464,7 +635,129 @@ const VoiceAssistant: React.FC<VoiceAssistantProps> = ({
         clearTimeout(restartTimeoutRef.current);
       }
     };
-  }, [activated, activationPhrase, openAiApiKey, systemPrompt, assistantPrompt, model, conversationMemoryLength, voiceModel, openaiTtsVoice, powers, systemVariables]);
+  }, [activated, activationPhrase, workspaceId, systemPrompt, assistantPrompt, model, conversationMemoryLength, voiceModel, hasOpenAiApiKey, hasGeminiApiKey, powers, systemVariables, maxToolSteps]);
+
+  const createConversation = async () => {
+    if (!workspace?.id) return false;
+    const { data, error } = await supabase
+      .from('conversations')
+      .insert({ workspace_id: workspace.id, channel: 'web', status: 'active' })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error("[VoiceAssistant] Erro ao criar conversa:", error);
+      showError("Erro ao iniciar nova conversa.");
+      setConversationId(null);
+      return false;
+    }
+    activeConversationRef.current = data.id;
+    recorderRef.current = createMessageRecorder(data.id, (fn, args) => supabase.rpc(fn, args));
+    setConversationId(data.id);
+    orchestratorRef.current?.reset();
+    setMessageHistory([]);
+    return true;
+  };
+
+  // active -> ended (o usuário encerrou) ou abandoned (saiu da página com a conversa aberta)
+  const endConversation = (status: "ended" | "abandoned") => {
+    const id = activeConversationRef.current;
+    if (!id) return;
+    activeConversationRef.current = null;
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    // As mensagens pendentes precisam entrar antes, pois só conversas ativas aceitam gravações
+    (recorder ? recorder.flush() : Promise.resolve())
+      .then(() => supabase.rpc('end_conversation', { p_conversation_id: id, p_status: status }))
+      .then(({ error }) => {
+        if (error) console.error("[VoiceAssistant] Erro ao encerrar conversa:", error);
+      });
+  };
+
+  // Canal do atendimento humano desta conversa. Qualquer um pode publicar nele, então os eventos só disparam a
+  // consulta ao banco: o estado gravado (também consultado ao entrar, pois broadcasts não ficam guardados) e a
+  // resposta do atendente, que só é devolvida se foi escrita por quem assumiu a conversa.
+  useEffect(() => {
+    takeoverHandlersRef.current?.onTakeover(false);
+    if (!conversationId) return;
+    const spokenMessages = new Set<string>();
+    // As consultas seguem a ordem dos eventos, para as respostas serem faladas na ordem em que foram enviadas
+    let pending = Promise.resolve();
+    const enqueue = (task: () => Promise<void>) => {
+      pending = pending.then(task).catch((error) => console.error("[VoiceAssistant] Erro no atendimento humano:", error));
+    };
+
+    const syncTakeover = async () => {
+      const { data, error } = await supabase.rpc('conversation_taken_over', { p_conversation_id: conversationId });
+      if (error) {
+        console.error("[VoiceAssistant] Erro ao consultar atendimento humano:", error);
+      } else {
+        takeoverHandlersRef.current?.onTakeover(!!data);
+      }
+    };
+
+    const loadOperatorMessage = async (messageId: string) => {
+      if (spokenMessages.has(messageId)) return;
+      const { data, error } = await supabase.rpc('operator_message_content', {
+        p_conversation_id: conversationId,
+        p_message_id: messageId,
+      });
+      if (error) {
+        console.error("[VoiceAssistant] Erro ao carregar a resposta do atendente:", error);
+        return;
+      }
+      if (typeof data !== "string" || spokenMessages.has(messageId)) return;
+      spokenMessages.add(messageId);
+      takeoverHandlersRef.current?.onOperatorMessage(data);
+    };
+
+    const channel = supabase
+      .channel(conversationChannelName(conversationId))
+      .on("broadcast", { event: TAKEOVER_EVENT }, () => enqueue(syncTakeover))
+      .on("broadcast", { event: OPERATOR_MESSAGE_EVENT }, ({ payload }) => {
+        const { message_id } = payload as OperatorMessagePayload;
+        if (message_id) enqueue(() => loadOperatorMessage(message_id));
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") enqueue(syncTakeover);
+      });
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId]);
+
+  // A escuta continua ligada enquanto a IA fala, então o estado anunciado segue esta prioridade
+  const liveState: LiveAssistantState = isSpeaking
+    ? "speaking"
+    : assistantStatus !== "idle"
+      ? assistantStatus
+      : isListening
+        ? "listening"
+        : "idle";
+
+  // O canal do monitoramento ao vivo é privado; o estado é publicado pelo banco (ver src/lib/liveConversations.ts)
+  useEffect(() => {
+    const conversation = activeConversationRef.current;
+    if (!conversation) return;
+    supabase
+      .rpc('broadcast_assistant_state', {
+        p_conversation_id: conversation,
+        p_state: liveState,
+        p_powers: liveState === "executing_power" ? runningPowersRef.current : null,
+      })
+      .then(({ error }) => {
+        if (error) console.error("[VoiceAssistant] Erro ao publicar o estado do assistente:", error);
+      });
+  }, [liveState, conversationId]);
+
+  useEffect(() => {
+    const abandon = () => endConversation("abandoned");
+    window.addEventListener("pagehide", abandon);
+    return () => {
+      window.removeEventListener("pagehide", abandon);
+      abandon();
+    };
+  }, []);
 
   useEffect(() => {
     const initializeAssistant = async () => {
@@ -474,20 +767,7 @@ const VoiceAssistant: React.FC<VoiceAssistantProps> = ({
       }
 
       if (!conversationId) {
-        const { data, error } = await supabase
-          .from('conversations')
-          .insert({ workspace_id: workspace.id, channel: 'web', status: 'active' })
-          .select('id')
-          .single();
-
-        if (error) {
-          console.error("[VoiceAssistant] Erro ao criar conversa:", error);
-          showError("Erro ao iniciar nova conversa.");
-          setConversationId(null);
-          return;
-        }
-        setConversationId(data.id);
-        setMessageHistory([]);
+        if (!(await createConversation())) return;
       }
 
       const micPermission = await checkMicrophonePermission();
@@ -542,20 +822,32 @@ const VoiceAssistant: React.FC<VoiceAssistantProps> = ({
       </div>
 
       <div className="flex flex-col items-center space-y-2">
+        {humanTakeover && (
+          <div className="flex items-center space-x-2 rounded-full bg-amber-500/20 px-4 py-1 text-amber-200 text-sm">
+            <Headset className="h-4 w-4" />
+            <span>Um atendente humano está respondendo.</span>
+          </div>
+        )}
+        {assistantStatus === "awaiting_confirmation" && (
+          <div className="flex items-center space-x-2 rounded-full bg-sky-500/20 px-4 py-1 text-sky-200 text-sm">
+            <ShieldQuestion className="h-4 w-4" />
+            <span>Aguardando sua confirmação: responda sim ou não.</span>
+          </div>
+        )}
         <div className="text-center text-yellow-300 text-sm">
           {activated ? "Assistente ativado. Pode falar." : `Diga "${activationPhrase}" para ativar o assistente.`}
         </div>
         <div className="flex space-x-4">
           <Button
             onClick={startListening}
-            disabled={isListening || isSpeaking}
+            disabled={isListening}
             className="bg-pink-500 hover:bg-pink-600 text-white"
           >
             <Mic className="mr-2 h-5 w-5" /> Iniciar Escuta
           </Button>
           <Button
             onClick={stopListening}
-            disabled={!isListening || isSpeaking}
+            disabled={!isListening}
             variant="destructive"
             className="bg-red-600 hover:bg-red-700 text-white"
           >
@@ -572,7 +864,7 @@ const VoiceAssistant: React.FC<VoiceAssistantProps> = ({
         )}
         {aiResponse && (
           <p className="text-indigo-300 text-lg whitespace-pre-wrap">
-            <span className="font-semibold">IA responde:</span> {aiResponse}
+            <span className="font-semibold">{humanTakeover ? "Atendente:" : "IA responde:"}</span> {aiResponse}
           </p>
         )}
       </div>
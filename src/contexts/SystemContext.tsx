@@ -4,7 +4,7 @@ import React, { createContext, useContext, useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { showError } from '@/utils/toast';
 import { useSession } from './SessionContext';
-import { replacePlaceholders } from '@/lib/utils'; // Importar a função
+import { systemVariableValues } from '@/lib/utils'; // Importar as funções
 
 interface SystemContextType {
   systemVariables: Record<string, any>;
@@ -81,19 +81,15 @@ export const SystemContextProvider: React.FC<{ children: React.ReactNode }> = ({
             }
           } else {
             // Para outros poderes, continuar usando proxy-api
-            // 3. Substituir placeholders usando as variáveis já coletadas
-            const processedUrl = replacePlaceholders(power.url, newSystemVariables);
-            const processedHeadersStr = replacePlaceholders(JSON.stringify(power.headers || {}), newSystemVariables);
-            const processedBodyStr = replacePlaceholders(JSON.stringify(power.body || {}), newSystemVariables);
-
+            // 3. O proxy-api monta a requisição a partir do poder salvo, com as variáveis já coletadas,
+            // e a registra no log de execuções
             const payload = {
-              url: processedUrl,
-              method: power.method,
-              headers: JSON.parse(processedHeadersStr),
-              body: JSON.parse(processedBodyStr),
+              system_power_id: power.id,
+              variables: systemVariableValues(newSystemVariables),
+              source: 'system',
             };
 
-            console.log(`[SystemContext] Executing power '${power.name}' via 'proxy-api'. URL: ${payload.url}`);
+            console.log(`[SystemContext] Executing power '${power.name}' via 'proxy-api'. URL: ${power.url}`);
             const { data: proxyData, error: proxyError } = await supabase.functions.invoke('proxy-api', { body: payload });
             data = proxyData;
             invokeError = proxyError;
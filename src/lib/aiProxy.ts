@@ -0,0 +1,46 @@
+import type { LlmSender } from "@/lib/llm";
+import type { SpeechSender } from "@/lib/tts";
+
+// Chamadas à IA (chat e voz) feitas pela Edge Function ai-proxy, que lê as chaves das configurações
+// do workspace no servidor. O navegador nunca recebe a chave; envia só o corpo no formato do provedor.
+export const AI_PROXY_FUNCTION = "ai-proxy";
+
+// conversation_id identifica a conversa ativa do visitante: o ai-proxy só atende visitantes com uma, aplica os
+// limites de frequência e monta os poderes no servidor. Sem ela, só membros logados do workspace são atendidos.
+export type AiProxyPayload =
+  | { action: "chat"; workspace_id: string; conversation_id?: string | null; stream: boolean; body: unknown }
+  | { action: "speech"; workspace_id: string; conversation_id?: string | null; text: string };
+
+// Assinatura compatível com supabase.functions.invoke('ai-proxy', ...)
+export type AiProxyInvoker = (
+  payload: AiProxyPayload,
+) => Promise<{ data: unknown; error: { message: string; context?: unknown } | null }>;
+
+// O invoke já interpreta o corpo conforme o Content-Type; os transportes esperam a Response original
+const toResponse = (data: unknown) => {
+  if (data instanceof Response) return data;
+  if (data instanceof Blob) return new Response(data, { headers: { "Content-Type": data.type } });
+  return new Response(JSON.stringify(data), { headers: { "Content-Type": "application/json" } });
+};
+
+export const createAiProxy = (workspaceId: string, invoke: AiProxyInvoker, conversationId: string | null = null) => {
+  const call = async (payload: AiProxyPayload, signal?: AbortSignal) => {
+    const { data, error } = await invoke(payload);
+    if (error) {
+      // Erros HTTP do provedor chegam com a resposta original, para cada transporte montar sua mensagem
+      if (error.context instanceof Response) return error.context;
+      throw new Error(error.message);
+    }
+    const response = toResponse(data);
+    // O invoke não aceita AbortSignal; se o turno foi interrompido durante a espera, o streaming é descartado
+    if (signal?.aborted) response.body?.cancel().catch(() => {});
+    return response;
+  };
+
+  const send: LlmSender = (body, { stream, signal }) =>
+    call({ action: "chat", workspace_id: workspaceId, conversation_id: conversationId, stream, body }, signal);
+
+  const sendSpeech: SpeechSender = (text) => call({ action: "speech", workspace_id: workspaceId, conversation_id: conversationId, text });
+
+  return { send, sendSpeech };
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { CONFIRMATION_RETRY, describePowerAction, parseConfirmationAnswer } from "@/lib/confirmation";
+import type { Power } from "@/lib/powers";
+
+describe("parseConfirmationAnswer", () => {
+  it("aprova só com respostas explícitas", () => {
+    expect(parseConfirmationAnswer("Sim")).toBe(true);
+    expect(parseConfirmationAnswer("confirmo, pode mandar")).toBe(true);
+    expect(parseConfirmationAnswer("Pode prosseguir.")).toBe(true);
+  });
+
+  it("não trata palavras de preenchimento como confirmação", () => {
+    expect(parseConfirmationAnswer("isso aí eu preciso pensar")).toBeNull();
+    expect(parseConfirmationAnswer("pode ser que eu queira outro horário")).toBeNull();
+    expect(parseConfirmationAnswer("ok, certo, deixa eu ver")).toBeNull();
+    expect(parseConfirmationAnswer("assim não dá")).toBe(false);
+  });
+
+  it("recusa quando a resposta também tem uma negação", () => {
+    expect(parseConfirmationAnswer("sim… quer dizer, não")).toBe(false);
+    expect(parseConfirmationAnswer("Não pode prosseguir")).toBe(false);
+    expect(parseConfirmationAnswer("cancela")).toBe(false);
+  });
+
+  it("as falas do assistente não contam como resposta quando voltam como eco", () => {
+    const power = { name: "criar_pedido", description: "Cria um pedido. Usa o estoque.", requires_confirmation: true } as Power;
+
+    expect(parseConfirmationAnswer(describePowerAction(power, { produto: "café", quantidade: 2 }))).toBeNull();
+    expect(parseConfirmationAnswer(CONFIRMATION_RETRY)).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+// Confirmação falada de poderes com efeitos colaterais (powers.requires_confirmation, migração 0027):
+// o resumo da ação que o assistente fala e a interpretação do "sim" ou "não" do usuário.
+// As falas do assistente evitam as palavras de sim/não, para que o eco do alto-falante não seja lido como resposta.
+
+import type { Power } from "@/lib/powers";
+
+// Só respostas explícitas aprovam: palavras de preenchimento ("isso aí", "pode ser que…") não autorizam a ação
+const YES_WORDS = ["sim", "confirmo", "confirma", "confirmado", "positivo", "prossiga"];
+const YES_PHRASES = ["pode prosseguir", "pode continuar", "pode seguir", "pode executar"];
+const NO_WORDS = ["nao", "nem", "nunca", "jamais", "cancela", "cancelar", "cancele", "negativo", "espera", "pare", "errado"];
+
+export const CONFIRMATION_RETRY = "Desculpe, fiquei na dúvida. Devo prosseguir com a ação?";
+
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\w\s]/g, " ");
+
+const formatArgument = (value: unknown) =>
+  typeof value === "string" ? value : typeof value === "number" || typeof value === "boolean" ? String(value) : JSON.stringify(value);
+
+// Resumo falado da ação: a descrição do poder (ou o nome) e os argumentos escolhidos pela IA
+export const describePowerAction = (power: Power, args: Record<string, unknown>) => {
+  const action = power.description?.split(/[.\n]/)[0].trim() || power.name.replace(/[_-]+/g, " ");
+  const details = Object.entries(args)
+    .filter(([, value]) => value !== null && value !== undefined && value !== "")
+    .map(([key, value]) => `${key.replace(/[_-]+/g, " ")}: ${formatArgument(value)}`)
+    .join("; ");
+  return `Antes de continuar, preciso da sua confirmação para esta ação: ${action}${details ? `, com ${details}` : ""}. Posso prosseguir?`;
+};
+
+// Qualquer negação tem prioridade, para que "sim, quer dizer, não" não seja lido como confirmação;
+// null quando não deu para entender
+export const parseConfirmationAnswer = (text: string): boolean | null => {
+  const words = normalize(text).split(/\s+/).filter(Boolean);
+  if (words.some((word) => NO_WORDS.includes(word))) return false;
+  const joined = ` ${words.join(" ")} `;
+  if (words.some((word) => YES_WORDS.includes(word)) || YES_PHRASES.some((phrase) => joined.includes(` ${phrase} `))) return true;
+  return null;
+};
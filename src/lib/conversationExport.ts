@@ -0,0 +1,133 @@
+import { toApiMessage, ChatMessage } from "@/lib/orchestrator";
+import type { Conversation, StoredMessage } from "@/lib/conversations";
+
+// Exportação de transcrições para auditoria (JSON e CSV) e para fine-tuning da OpenAI (JSONL)
+
+export type ExportFormat = "json" | "csv" | "jsonl";
+
+export interface ConversationWithMessages {
+  conversation: Conversation;
+  messages: StoredMessage[];
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: "JSON", extension: "json", mimeType: "application/json" },
+  csv: { label: "CSV", extension: "csv", mimeType: "text/csv" },
+  jsonl: { label: "JSONL (fine-tuning OpenAI)", extension: "jsonl", mimeType: "application/jsonl" },
+};
+
+// Prompts que o runConversation envia antes do histórico
+export interface ExportPrompts {
+  systemPrompt?: string | null;
+  assistantPrompt?: string | null;
+}
+
+const CSV_COLUMNS = [
+  "conversation_id",
+  "conversation_status",
+  "channel",
+  "conversation_created_at",
+  "conversation_ended_at",
+  "message_id",
+  "created_at",
+  "role",
+  "author",
+  "content",
+  "tool_calls",
+  "tool_call_id",
+  "name",
+  "latency_ms",
+  "prompt_tokens",
+  "completion_tokens",
+  "interrupted",
+] as const;
+
+// Linha da tabela messages no formato de mensagem do orquestrador, sem os campos nulos
+const toChatMessage = (message: StoredMessage): ChatMessage => ({
+  role: message.role,
+  content: message.content,
+  ...(message.tool_calls?.length ? { tool_calls: message.tool_calls } : {}),
+  ...(message.tool_call_id ? { tool_call_id: message.tool_call_id } : {}),
+  ...(message.name ? { name: message.name } : {}),
+  ...(message.interrupted ? { interrupted: true } : {}),
+});
+
+const messageAuthor = (message: StoredMessage) => {
+  if (message.role === "user") return "usuario";
+  if (message.role === "assistant") return message.operator_id ? "atendente" : "ia";
+  return message.role === "tool" ? "poder" : "sistema";
+};
+
+const csvCell = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "string" ? value : typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toJsonExport = (items: ConversationWithMessages[]) =>
+  JSON.stringify(items.map(({ conversation, messages }) => ({ ...conversation, messages })), null, 2);
+
+// Uma linha por mensagem, com os dados da conversa repetidos para facilitar filtros em planilhas
+export const toCsvExport = (items: ConversationWithMessages[]) => {
+  const rows = items.flatMap(({ conversation, messages }) =>
+    messages.map((message) => {
+      const row: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+        conversation_id: conversation.id,
+        conversation_status: conversation.status,
+        channel: conversation.channel,
+        conversation_created_at: conversation.created_at,
+        conversation_ended_at: conversation.ended_at,
+        message_id: message.id,
+        created_at: message.created_at,
+        role: message.role,
+        author: messageAuthor(message),
+        content: message.content,
+        tool_calls: message.tool_calls,
+        tool_call_id: message.tool_call_id,
+        name: message.name,
+        latency_ms: message.latency_ms,
+        prompt_tokens: message.prompt_tokens,
+        completion_tokens: message.completion_tokens,
+        interrupted: message.interrupted,
+      };
+      return CSV_COLUMNS.map((column) => csvCell(row[column])).join(",");
+    }),
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+};
+
+// Formato de fine-tuning de chat da OpenAI: uma conversa por linha, {"messages": [...]}, com as mensagens
+// no mesmo formato enviado pelo orquestrador (prompts iniciais, tool_calls e respostas "tool").
+export const toFineTuningJsonl = (items: ConversationWithMessages[], prompts: ExportPrompts = {}) => {
+  const preamble: ChatMessage[] = [
+    ...(prompts.systemPrompt ? [{ role: "system" as const, content: prompts.systemPrompt }] : []),
+    ...(prompts.assistantPrompt ? [{ role: "assistant" as const, content: prompts.assistantPrompt }] : []),
+  ];
+  return items
+    .filter(({ messages }) => messages.length > 0)
+    .map(({ messages }) => JSON.stringify({ messages: [...preamble, ...messages.map(toChatMessage)].map(toApiMessage) }))
+    .join("\n");
+};
+
+export const buildExport = (format: ExportFormat, items: ConversationWithMessages[], prompts?: ExportPrompts) => {
+  switch (format) {
+    case "json":
+      return toJsonExport(items);
+    case "csv":
+      return toCsvExport(items);
+    case "jsonl":
+      return toFineTuningJsonl(items, prompts);
+  }
+};
+
+export const downloadExport = (format: ExportFormat, baseName: string, content: string) => {
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${baseName}.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
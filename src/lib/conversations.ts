@@ -0,0 +1,67 @@
+import type { ToolCall } from "@/lib/orchestrator";
+
+// Linhas das tabelas conversations e messages (migração 0021), usadas pelas páginas do admin
+
+export type ConversationStatus = "active" | "ended" | "abandoned";
+
+export interface Conversation {
+  id: string;
+  workspace_id: string;
+  channel: string;
+  status: ConversationStatus;
+  created_at: string;
+  ended_at: string | null;
+  // Atendente que pausou a IA e responde no lugar dela (migração 0023)
+  taken_over_by: string | null;
+  taken_over_at: string | null;
+}
+
+export interface StoredMessage {
+  id: string;
+  conversation_id: string;
+  role: "user" | "assistant" | "tool" | "system";
+  content: string | null;
+  tool_calls: ToolCall[] | null;
+  tool_call_id: string | null;
+  name: string | null;
+  latency_ms: number | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  interrupted: boolean;
+  // Preenchido nas respostas escritas por um atendente durante o atendimento humano
+  operator_id: string | null;
+  created_at: string;
+}
+
+export const CONVERSATION_COLUMNS = "id, workspace_id, channel, status, created_at, ended_at, taken_over_by, taken_over_at";
+
+export const CONVERSATION_STATUS_LABELS: Record<ConversationStatus, string> = {
+  active: "Ativa",
+  ended: "Encerrada",
+  abandoned: "Abandonada",
+};
+
+export const CHANNEL_LABELS: Record<string, string> = {
+  web: "Web",
+};
+
+export const formatDateTime = (value: string) => new Date(value).toLocaleString("pt-BR");
+
+// Duração entre o início e o fim (ou agora, se a conversa ainda está ativa), ex.: "3min 20s"
+export const formatDuration = (startedAt: string, endedAt?: string | null) => {
+  const seconds = Math.max(0, Math.round(((endedAt ? new Date(endedAt) : new Date()).getTime() - new Date(startedAt).getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}min ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}min`;
+};
+
+// Argumentos de poderes e respostas do proxy são JSON em texto; formata quando possível
+export const prettyJson = (value: string | null) => {
+  if (!value) return "";
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    return value;
+  }
+};
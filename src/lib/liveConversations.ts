@@ -0,0 +1,44 @@
+// Monitoramento ao vivo: o VoiceAssistant anuncia o estado do assistente pela função broadcast_assistant_state,
+// que confere a conversa e publica num canal privado por workspace, lido só por membros (migração 0030);
+// as mensagens em si chegam pelo postgres_changes da tabela messages.
+
+export type LiveAssistantState = "idle" | "listening" | "thinking" | "executing_power" | "awaiting_confirmation" | "speaking";
+
+export interface AssistantStatePayload {
+  conversation_id: string;
+  state: LiveAssistantState;
+  // Poderes em execução, quando state = "executing_power"
+  powers?: string[];
+  at: string;
+}
+
+export const ASSISTANT_STATE_EVENT = "assistant_state";
+
+export const liveChannelName = (workspaceId: string) => `live-conversations:${workspaceId}`;
+
+export const LIVE_STATE_LABELS: Record<LiveAssistantState, string> = {
+  idle: "Parado",
+  listening: "Ouvindo",
+  thinking: "Pensando",
+  executing_power: "Executando poder",
+  awaiting_confirmation: "Aguardando confirmação",
+  speaking: "Falando",
+};
+
+// Atendimento humano: o admin e o VoiceAssistant da conversa trocam eventos num canal próprio da conversa.
+// O estado fica gravado em conversations.taken_over_by (migração 0023); o canal é público, então o broadcast
+// só avisa a página pública, que confere o estado e lê a resposta do atendente no banco (migração 0029).
+export interface TakeoverPayload {
+  conversation_id: string;
+  active: boolean;
+}
+
+export interface OperatorMessagePayload {
+  conversation_id: string;
+  message_id: string;
+}
+
+export const TAKEOVER_EVENT = "takeover";
+export const OPERATOR_MESSAGE_EVENT = "operator_message";
+
+export const conversationChannelName = (conversationId: string) => `conversation:${conversationId}`;
@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { createLlmTransport, testCustomEndpoint, toGeminiRequest } from "@/lib/llm";
+import type { ToolDefinition } from "@/lib/orchestrator";
+import { createFetchSender, FakeHandler, FakeOpenAIServer, startFakeOpenAIServer, toolCall } from "@/test/fakeOpenAIServer";
+
+// Servidor próprio compatível com a OpenAI (Ollama, vLLM, LM Studio): o ai-proxy repassa o corpo sem alterar,
+// então o transporte escolhido para "openai-compatible" é exercitado direto contra o servidor falso
+
+const tools: ToolDefinition[] = [
+  { type: "function", function: { name: "buscar_pedido", description: null, parameters: { type: "object", properties: { id: { type: "integer" } } } } },
+];
+
+let server: FakeOpenAIServer | null = null;
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+});
+
+const transportFor = async (handler: FakeHandler) => {
+  server = await startFakeOpenAIServer(handler);
+  return createLlmTransport("openai-compatible", createFetchSender(server.baseUrl));
+};
+
+describe("transporte para servidor compatível com a OpenAI", () => {
+  it("lê a resposta sem streaming, com consumo de tokens", async () => {
+    const transport = await transportFor(() => ({ content: "Olá!", usage: { prompt_tokens: 12, completion_tokens: 3 } }));
+
+    const response = await transport.complete({ messages: [{ role: "user", content: "Oi" }] });
+
+    expect(response.message).toEqual({ role: "assistant", content: "Olá!" });
+    expect(response.usage).toEqual({ promptTokens: 12, completionTokens: 3 });
+    expect(server?.requests[0]).toMatchObject({ messages: [{ role: "user", content: "Oi" }] });
+    expect(server?.requests[0].stream).toBeUndefined();
+    expect(server?.requests[0].tool_choice).toBeUndefined();
+  });
+
+  it("lê pedidos de poderes sem streaming", async () => {
+    const transport = await transportFor(() => ({ tool_calls: [toolCall("call_1", "buscar_pedido", { id: 42 })] }));
+
+    const response = await transport.complete({ messages: [{ role: "user", content: "Pedido 42" }], tools });
+
+    expect(response.message.tool_calls).toEqual([toolCall("call_1", "buscar_pedido", { id: 42 })]);
+    expect(server?.requests[0]).toMatchObject({ tools, tool_choice: "auto" });
+  });
+
+  it("repassa cada pedaço de texto do streaming e monta a mensagem final", async () => {
+    const transport = await transportFor(() => ({ content: "Uma resposta em várias partes.", usage: { prompt_tokens: 8, completion_tokens: 6 } }));
+    const deltas: string[] = [];
+
+    const response = await transport.stream!({ messages: [{ role: "user", content: "Oi" }] }, (text) => deltas.push(text));
+
+    expect(server?.requests[0].stream).toBe(true);
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join("")).toBe("Uma resposta em várias partes.");
+    expect(response.message).toEqual({ role: "assistant", content: "Uma resposta em várias partes." });
+    expect(response.usage).toEqual({ promptTokens: 8, completionTokens: 6 });
+  });
+
+  it("junta os argumentos dos poderes que chegam fragmentados no streaming", async () => {
+    const calls = [toolCall("call_1", "buscar_pedido", { id: 42 }), toolCall("call_2", "buscar_pedido", { id: 7 })];
+    const transport = await transportFor(() => ({ tool_calls: calls }));
+
+    const response = await transport.stream!({ messages: [{ role: "user", content: "Pedidos 42 e 7" }], tools }, () => {});
+
+    expect(response.message).toEqual({ role: "assistant", content: null, tool_calls: calls });
+  });
+
+  it("mostra a mensagem de erro do servidor", async () => {
+    const transport = await transportFor(() => ({ status: 404, error: "model 'llama3' not found" }));
+
+    await expect(transport.complete({ messages: [{ role: "user", content: "Oi" }] })).rejects.toThrow("Erro OpenAI: model 'llama3' not found");
+  });
+});
+
+describe("testCustomEndpoint", () => {
+  it("lista os modelos do servidor e confere o configurado", async () => {
+    server = await startFakeOpenAIServer(() => ({ content: "" }), ["llama3", "qwen2.5"]);
+
+    await expect(testCustomEndpoint({ baseUrl: `${server.baseUrl}/`, model: "llama3" }, "chave")).resolves.toEqual({
+      models: ["llama3", "qwen2.5"],
+      modelFound: true,
+    });
+    await expect(testCustomEndpoint({ baseUrl: server.baseUrl, model: "mistral" }, null)).resolves.toMatchObject({ modelFound: false });
+  });
+
+  it("explica quando o servidor não responde", async () => {
+    server = await startFakeOpenAIServer(() => ({ content: "" }));
+    const baseUrl = server.baseUrl;
+    await server.close();
+    server = null;
+
+    await expect(testCustomEndpoint({ baseUrl, model: "llama3" }, null)).rejects.toThrow("Servidor inacessível");
+  });
+});
+
+describe("toGeminiRequest", () => {
+  it("descarta os resultados de poderes cujo pedido ficou no início do histórico recortado", () => {
+    const request = toGeminiRequest({
+      messages: [
+        { role: "system", content: "Sistema" },
+        { role: "assistant", content: null, tool_calls: [toolCall("call_1", "buscar_pedido", { id: 1 })] },
+        { role: "tool", tool_call_id: "call_1", name: "buscar_pedido", content: "{\"ok\":true}" },
+        { role: "user", content: "E o pedido 2?" },
+      ],
+    });
+
+    expect(request.systemInstruction).toEqual({ parts: [{ text: "Sistema" }] });
+    expect(request.contents).toEqual([{ role: "user", parts: [{ text: "E o pedido 2?" }] }]);
+  });
+
+  it("mantém pedidos e resultados de poderes no meio da conversa", () => {
+    const request = toGeminiRequest({
+      messages: [
+        { role: "user", content: "Pedido 1" },
+        { role: "assistant", content: null, tool_calls: [toolCall("call_1", "buscar_pedido", { id: 1 })] },
+        { role: "tool", tool_call_id: "call_1", name: "buscar_pedido", content: "{\"ok\":true}" },
+      ],
+    });
+
+    expect(request.contents).toEqual([
+      { role: "user", parts: [{ text: "Pedido 1" }] },
+      { role: "model", parts: [{ functionCall: { name: "buscar_pedido", args: { id: 1 } } }] },
+      { role: "user", parts: [{ functionResponse: { name: "buscar_pedido", response: { ok: true } } }] },
+    ]);
+  });
+
+  it("não quebra com argumentos inválidos gerados pelo modelo", () => {
+    const request = toGeminiRequest({
+      messages: [
+        { role: "user", content: "Pedido" },
+        { role: "assistant", content: null, tool_calls: [{ id: "call_1", type: "function", function: { name: "buscar_pedido", arguments: "{id: 1" } }] },
+      ],
+    });
+
+    expect(request.contents[1]).toEqual({ role: "model", parts: [{ functionCall: { name: "buscar_pedido", args: {} } }] });
+  });
+});
@@ -0,0 +1,285 @@
+import type { ChatMessage, LlmRequest, LlmResponse, LlmTransport, TokenUsage, ToolCall } from "@/lib/orchestrator";
+import { resolveModel, toGeminiTools } from "../../supabase/functions/_shared/llm.ts";
+
+// Catálogo de modelos compartilhado com o ai-proxy, que resolve o modelo no servidor
+export { AI_MODELS, resolveModel, toGeminiSchema } from "../../supabase/functions/_shared/llm.ts";
+export type { LlmProvider } from "../../supabase/functions/_shared/llm.ts";
+
+export interface CustomEndpoint {
+  baseUrl: string;
+  model: string;
+}
+
+// Aceita a URL base com ou sem barra final, ex.: https://meu-servidor.com/v1
+const joinUrl = (baseUrl: string, path: string) => `${baseUrl.replace(/\/+$/, "")}/${path}`;
+
+// Envia o corpo já no formato do provedor e devolve a resposta HTTP crua. No navegador a chamada
+// passa pela Edge Function ai-proxy, que acrescenta o modelo e a chave guardados nas configurações.
+export type LlmSender = (body: unknown, options: { stream: boolean; signal?: AbortSignal }) => Promise<Response>;
+
+// Lê um corpo Server-Sent Events e entrega o conteúdo de cada linha "data:"
+export const readServerSentEvents = async (
+  response: Response,
+  onData: (data: string) => void,
+  signal?: AbortSignal,
+) => {
+  if (!response.body) throw new Error("Resposta de streaming sem corpo.");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  // Nem todo envio repassa o signal ao fetch; cancelar a leitura garante que nada chegue após a interrupção
+  const cancel = () => reader.cancel().catch(() => {});
+  signal?.addEventListener("abort", cancel, { once: true });
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() || "";
+    for (const line of lines) {
+      if (line.startsWith("data:")) onData(line.slice(5).trim());
+    }
+  }
+  signal?.removeEventListener("abort", cancel);
+  if (signal?.aborted) return;
+  if (buffer.startsWith("data:")) onData(buffer.slice(5).trim());
+};
+
+const toOpenAIUsage = (usage?: { prompt_tokens?: number; completion_tokens?: number }): TokenUsage | undefined =>
+  usage ? { promptTokens: usage.prompt_tokens || 0, completionTokens: usage.completion_tokens || 0 } : undefined;
+
+// Transporte para a API de chat completions da OpenAI (ou qualquer servidor com o mesmo formato)
+export const createOpenAITransport = (send: LlmSender): LlmTransport => {
+  const request = async ({ messages, tools, signal }: LlmRequest, stream: boolean) => {
+    const response = await send(
+      {
+        messages: messages,
+        tools: tools,
+        tool_choice: tools ? "auto" : undefined,
+      },
+      { stream, signal },
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(`Erro OpenAI: ${errorData.error?.message || response.statusText}`);
+    }
+    return response;
+  };
+
+  return {
+    complete: async (llmRequest): Promise<LlmResponse> => {
+      const response = await request(llmRequest, false);
+      const data = await response.json();
+      return { message: data.choices?.[0]?.message, usage: toOpenAIUsage(data.usage) };
+    },
+
+    stream: async (llmRequest, onDelta): Promise<LlmResponse> => {
+      const response = await request(llmRequest, true);
+      let content = "";
+      // Os tool_calls chegam fragmentados por índice; os argumentos são concatenados
+      const toolCalls: ToolCall[] = [];
+      let usage: TokenUsage | undefined;
+
+      await readServerSentEvents(response, (data) => {
+        if (!data || data === "[DONE]") return;
+        const chunk = JSON.parse(data);
+        // Com stream_options.include_usage o consumo chega num último pedaço, sem choices
+        if (chunk.usage) usage = toOpenAIUsage(chunk.usage);
+        const delta = chunk.choices?.[0]?.delta;
+        if (!delta) return;
+        if (delta.content) {
+          content += delta.content;
+          onDelta(delta.content);
+        }
+        for (const part of delta.tool_calls || []) {
+          const current = toolCalls[part.index] || { id: "", type: "function", function: { name: "", arguments: "" } };
+          if (part.id) current.id = part.id;
+          if (part.function?.name) current.function.name += part.function.name;
+          if (part.function?.arguments) current.function.arguments += part.function.arguments;
+          toolCalls[part.index] = current;
+        }
+      }, llmRequest.signal);
+
+      const message: ChatMessage = { role: "assistant", content: content || null };
+      if (toolCalls.length > 0) message.tool_calls = toolCalls.filter(Boolean);
+      return { message, usage };
+    },
+  };
+};
+
+interface GeminiPart {
+  text?: string;
+  functionCall?: { id?: string; name: string; args?: Record<string, unknown> };
+  functionResponse?: { name: string; response: Record<string, unknown> };
+}
+
+interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
+
+const parseToolContent = (content: string | null) => {
+  try {
+    const parsed = JSON.parse(content || "null");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : { result: parsed };
+  } catch {
+    return { result: content };
+  }
+};
+
+// Argumentos inválidos gerados pelo modelo não derrubam o turno; o pedido segue sem eles
+const parseToolArguments = (text: string) => {
+  try {
+    const parsed = JSON.parse(text || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed as Record<string, unknown> : {};
+  } catch {
+    return {};
+  }
+};
+
+// Converte o histórico no formato OpenAI para o formato "contents" do Gemini
+export const toGeminiRequest = ({ messages, tools }: LlmRequest) => {
+  const systemTexts: string[] = [];
+  const contents: GeminiContent[] = [];
+  // Pedidos de poderes descartados no início da conversa: os resultados deles também saem, senão o Gemini rejeita
+  const droppedCalls = new Set<string>();
+
+  const append = (role: GeminiContent["role"], parts: GeminiPart[]) => {
+    if (parts.length === 0) return;
+    const last = contents[contents.length - 1];
+    // Mensagens seguidas do mesmo papel (ex.: vários resultados de poderes) viram uma só
+    if (last && last.role === role) last.parts.push(...parts);
+    else contents.push({ role, parts });
+  };
+
+  for (const message of messages) {
+    if (message.role === "system") {
+      if (message.content) systemTexts.push(message.content);
+    } else if (message.role === "user") {
+      append("user", message.content ? [{ text: message.content }] : []);
+    } else if (message.role === "assistant" && contents.length === 0) {
+      // O Gemini exige que a conversa comece pelo usuário; o prompt do assistente vira instrução de sistema
+      if (message.content) systemTexts.push(message.content);
+      for (const toolCall of message.tool_calls || []) droppedCalls.add(toolCall.id);
+    } else if (message.role === "assistant") {
+      const parts: GeminiPart[] = message.content ? [{ text: message.content }] : [];
+      for (const toolCall of message.tool_calls || []) {
+        parts.push({
+          functionCall: { name: toolCall.function.name, args: parseToolArguments(toolCall.function.arguments) },
+        });
+      }
+      append("model", parts);
+    } else if (message.role === "tool") {
+      if (message.tool_call_id && droppedCalls.has(message.tool_call_id)) continue;
+      append("user", [{ functionResponse: { name: message.name || "", response: parseToolContent(message.content) } }]);
+    }
+  }
+
+  return {
+    systemInstruction: systemTexts.length > 0 ? { parts: [{ text: systemTexts.join("\n\n") }] } : undefined,
+    contents,
+    ...(tools ? toGeminiTools(tools) : {}),
+  };
+};
+
+const toGeminiUsage = (usage?: { promptTokenCount?: number; candidatesTokenCount?: number }): TokenUsage | undefined =>
+  usage ? { promptTokens: usage.promptTokenCount || 0, completionTokens: usage.candidatesTokenCount || 0 } : undefined;
+
+let geminiCallCounter = 0;
+
+const toToolCall = (functionCall: NonNullable<GeminiPart["functionCall"]>): ToolCall => ({
+  // O Gemini nem sempre devolve um id; o histórico no formato OpenAI precisa de um para ligar o resultado
+  id: functionCall.id || `gemini_call_${Date.now()}_${geminiCallCounter++}`,
+  type: "function",
+  function: { name: functionCall.name, arguments: JSON.stringify(functionCall.args || {}) },
+});
+
+const describeGeminiError = (status: number, message?: string) => {
+  if (status === 401 || status === 403) return "Erro Gemini: chave API inválida ou sem permissão para o modelo.";
+  if (status === 429) return "Erro Gemini: limite de uso atingido. Tente novamente em instantes.";
+  return `Erro Gemini: ${message || `erro ${status}`}`;
+};
+
+export const createGeminiTransport = (send: LlmSender): LlmTransport => {
+  const request = async (llmRequest: LlmRequest, stream: boolean) => {
+    const response = await send(toGeminiRequest(llmRequest), { stream, signal: llmRequest.signal });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(describeGeminiError(response.status, errorData.error?.message));
+    }
+    return response;
+  };
+
+  // Junta as partes de uma ou mais respostas do Gemini em uma mensagem no formato OpenAI
+  const collect = (parts: GeminiPart[], message: ChatMessage, onText?: (text: string) => void) => {
+    for (const part of parts) {
+      if (part.text) {
+        message.content = (message.content || "") + part.text;
+        onText?.(part.text);
+      }
+      if (part.functionCall) {
+        message.tool_calls = [...(message.tool_calls || []), toToolCall(part.functionCall)];
+      }
+    }
+  };
+
+  return {
+    complete: async (llmRequest): Promise<LlmResponse> => {
+      const response = await request(llmRequest, false);
+      const data = await response.json();
+      const message: ChatMessage = { role: "assistant", content: null };
+      collect(data.candidates?.[0]?.content?.parts || [], message);
+      return { message, usage: toGeminiUsage(data.usageMetadata) };
+    },
+
+    stream: async (llmRequest, onDelta): Promise<LlmResponse> => {
+      const response = await request(llmRequest, true);
+      const message: ChatMessage = { role: "assistant", content: null };
+      let usage: TokenUsage | undefined;
+      await readServerSentEvents(response, (data) => {
+        if (!data) return;
+        const chunk = JSON.parse(data);
+        // usageMetadata é acumulado; o último pedaço traz o total
+        if (chunk.usageMetadata) usage = toGeminiUsage(chunk.usageMetadata);
+        collect(chunk.candidates?.[0]?.content?.parts || [], message, onDelta);
+      }, llmRequest.signal);
+      return { message, usage };
+    },
+  };
+};
+
+// Escolhe o formato de chamada a partir de settings.ai_model; modelo e chave são resolvidos pelo servidor
+export const createLlmTransport = (aiModel: string, send: LlmSender): LlmTransport =>
+  resolveModel(aiModel).provider === "gemini" ? createGeminiTransport(send) : createOpenAITransport(send);
+
+export interface ConnectionTestResult {
+  models: string[];
+  modelFound: boolean;
+}
+
+// Usado pelo botão "Testar Conexão": lista os modelos do servidor e confere se o configurado existe.
+// A chamada sai direto do navegador, para que a chave digitada não passe pelo proxy-api (que registra as respostas).
+export const testCustomEndpoint = async (
+  { baseUrl, model }: CustomEndpoint,
+  apiKey: string | null | undefined,
+): Promise<ConnectionTestResult> => {
+  let response: Response;
+  try {
+    response = await fetch(joinUrl(baseUrl, "models"), {
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+    });
+  } catch {
+    // fetch só rejeita em falha de rede, o que inclui o bloqueio de CORS pelo navegador
+    throw new Error("Servidor inacessível pelo navegador. Verifique a URL e se o servidor permite requisições de outras origens (CORS).");
+  }
+
+  const data = (await response.json().catch(() => null)) as { data?: { id: string }[]; error?: { message?: string } } | null;
+  if (!response.ok) {
+    throw new Error(`Servidor respondeu ${response.status}: ${data?.error?.message || response.statusText}`);
+  }
+  const models = (data?.data || []).map((item) => item.id);
+  return { models, modelFound: models.includes(model) };
+};
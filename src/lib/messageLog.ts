@@ -0,0 +1,79 @@
+import type { ChatMessage, OrchestratorEvent, TokenUsage } from "@/lib/orchestrator";
+
+// Grava as mensagens da conversa na tabela messages a partir dos eventos do orquestrador.
+// As gravações passam pelas funções append_message/mark_message_interrupted (migração 0021),
+// que também funcionam para visitantes sem login.
+
+// Assinatura compatível com supabase.rpc
+export type MessageLogRpc = (
+  fn: "append_message" | "mark_message_interrupted",
+  args: Record<string, unknown>,
+) => PromiseLike<{ data: unknown; error: { message: string } | null }>;
+
+export interface MessageRecorder {
+  handleEvent: (event: OrchestratorEvent) => void;
+  // Resolve quando todas as gravações pendentes terminarem
+  flush: () => Promise<void>;
+}
+
+export const createMessageRecorder = (conversationId: string, rpc: MessageLogRpc): MessageRecorder => {
+  // Gravações em fila, para que as mensagens entrem na ordem da conversa
+  let queue: Promise<void> = Promise.resolve();
+  let lastAnswerId: string | null = null;
+  const toolDurations = new Map<string, number>();
+
+  const enqueue = (task: () => Promise<void>) => {
+    queue = queue.then(task).catch((error) => {
+      console.error("[MessageLog] Erro ao gravar mensagem:", error);
+    });
+  };
+
+  const append = (message: ChatMessage, latencyMs?: number, usage?: TokenUsage) =>
+    enqueue(async () => {
+      const { data, error } = await rpc("append_message", {
+        p_conversation_id: conversationId,
+        p_role: message.role,
+        p_content: message.content,
+        p_tool_calls: message.tool_calls ?? null,
+        p_tool_call_id: message.tool_call_id ?? null,
+        p_name: message.name ?? null,
+        p_latency_ms: latencyMs ?? null,
+        p_prompt_tokens: usage?.promptTokens ?? null,
+        p_completion_tokens: usage?.completionTokens ?? null,
+        p_interrupted: !!message.interrupted,
+      });
+      if (error) throw new Error(error.message);
+      if (message.role === "assistant" && !message.tool_calls?.length) lastAnswerId = data as string;
+    });
+
+  const handleEvent = (event: OrchestratorEvent) => {
+    switch (event.type) {
+      case "tool_result":
+        toolDurations.set(event.toolCall.id, event.durationMs);
+        break;
+      case "message": {
+        const { message } = event;
+        const latencyMs = message.role === "tool" ? toolDurations.get(message.tool_call_id || "") : event.latencyMs;
+        append(message, latencyMs, event.usage);
+        break;
+      }
+      case "interrupted":
+        if (!event.replaced) {
+          append(event.message);
+          break;
+        }
+        // A resposta completa já foi gravada; fica só o trecho falado
+        enqueue(async () => {
+          if (!lastAnswerId) return;
+          const { error } = await rpc("mark_message_interrupted", {
+            p_message_id: lastAnswerId,
+            p_content: event.message.content,
+          });
+          if (error) throw new Error(error.message);
+        });
+        break;
+    }
+  };
+
+  return { handleEvent, flush: () => queue };
+};
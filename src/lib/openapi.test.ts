@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { parseOpenApi } from "@/lib/openapi";
+
+const yamlDocument = `
+openapi: 3.0.0
+info:
+  title: Loja
+servers:
+  - url: https://api.loja.com/v1
+paths:
+  /clientes/{client_ip}/pedidos:
+    post:
+      operationId: criarPedido
+      summary: Cria um pedido
+      parameters:
+        - name: client_ip
+          in: path
+          required: true
+          schema:
+            type: string
+        - name: origem
+          in: query
+          schema:
+            type: string
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema:
+              $ref: "#/components/schemas/Pedido"
+components:
+  schemas:
+    Pedido:
+      type: object
+      required: [produto]
+      properties:
+        produto:
+          type: string
+        quantidade:
+          type: integer
+`;
+
+describe("parseOpenApi", () => {
+  it("lê documentos em YAML", () => {
+    const parsed = parseOpenApi(yamlDocument);
+
+    expect(parsed.title).toBe("Loja");
+    expect(parsed.baseUrl).toBe("https://api.loja.com/v1");
+    expect(parsed.operations).toHaveLength(1);
+    expect(parsed.operations[0].power).toMatchObject({
+      name: "criarPedido",
+      method: "POST",
+      url: "https://api.loja.com/v1/clientes/{client_ip}/pedidos?origem={origem}",
+      body: { produto: "{produto}", quantidade: "{quantidade}" },
+    });
+    expect(parsed.operations[0].power.parameters_schema.required).toEqual(["client_ip", "produto"]);
+  });
+
+  it("renomeia parâmetros que coincidem com variáveis do sistema", () => {
+    const [operation] = parseOpenApi(yamlDocument, undefined, ["client_ip", "produto"]).operations;
+
+    expect(operation.renamed).toEqual([
+      { from: "client_ip", to: "client_ip_param" },
+      { from: "produto", to: "produto_param" },
+    ]);
+    expect(operation.power.url).toBe("https://api.loja.com/v1/clientes/{client_ip_param}/pedidos?origem={origem}");
+    expect(operation.power.body).toEqual({ produto: "{produto_param}", quantidade: "{quantidade}" });
+    expect(Object.keys(operation.power.parameters_schema.properties as object)).toEqual(["client_ip_param", "origem", "produto_param", "quantidade"]);
+    expect(operation.power.parameters_schema.required).toEqual(["client_ip_param", "produto_param"]);
+  });
+
+  it("renomeia campos do corpo com o nome de um parâmetro de path ou query", () => {
+    const document = {
+      openapi: "3.0.0",
+      info: { title: "Loja" },
+      servers: [{ url: "https://api.loja.com" }],
+      paths: {
+        "/pedidos/{id}": {
+          put: {
+            operationId: "atualizarPedido",
+            parameters: [
+              { name: "id", in: "path", required: true, schema: { type: "integer" } },
+              { name: "status", in: "query", schema: { type: "string" } },
+            ],
+            requestBody: {
+              required: true,
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    required: ["id"],
+                    properties: { id: { type: "string" }, status: { type: "string", enum: ["pago", "enviado"] }, nota: { type: "string" } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    const [operation] = parseOpenApi(JSON.stringify(document)).operations;
+
+    expect(operation.renamed).toEqual([
+      { from: "id", to: "id_param" },
+      { from: "status", to: "status_param" },
+    ]);
+    expect(operation.power.url).toBe("https://api.loja.com/pedidos/{id}?status={status}");
+    expect(operation.power.body).toEqual({ id: "{id_param}", status: "{status_param}", nota: "{nota}" });
+    expect(operation.power.parameters_schema.properties).toMatchObject({
+      id: { type: "integer" },
+      id_param: { type: "string" },
+      status_param: { type: "string", enum: ["pago", "enviado"] },
+    });
+    expect(operation.power.parameters_schema.required).toEqual(["id", "id_param"]);
+  });
+
+  it("recusa textos que não são JSON nem YAML de um documento OpenAPI", () => {
+    expect(() => parseOpenApi("openapi: [3")).toThrow("JSON ou YAML válido");
+    expect(() => parseOpenApi("titulo: sem paths")).toThrow("Documento OpenAPI inválido");
+  });
+});
@@ -0,0 +1,251 @@
+// Importação de poderes a partir de documentos OpenAPI 3 (e Swagger 2) em JSON ou YAML.
+// Cada operação vira um poder: parâmetros de path e query viram placeholders {param} na URL,
+// e as propriedades do corpo JSON viram placeholders no corpo, preenchidos com os argumentos da IA.
+
+import { parse as parseYaml } from "yaml";
+
+type JsonObject = Record<string, unknown>;
+
+export interface PowerDraft {
+  name: string;
+  description: string;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: JsonObject | null;
+  parameters_schema: JsonObject;
+}
+
+export interface ImportableOperation {
+  // "METHOD /path", único no documento
+  key: string;
+  method: string;
+  path: string;
+  summary: string;
+  // Parâmetros cujo nome coincide com uma variável do sistema ou com outro parâmetro e ganharam outro nome de argumento
+  renamed: { from: string; to: string }[];
+  power: PowerDraft;
+}
+
+export interface ParsedOpenApi {
+  title: string;
+  baseUrl: string;
+  operations: ImportableOperation[];
+}
+
+const HTTP_METHODS = ["get", "post", "put", "patch", "delete"] as const;
+const BODY_METHODS = new Set(["POST", "PUT", "PATCH"]);
+// Limite dos provedores para nomes de funções (tools)
+const MAX_POWER_NAME_LENGTH = 64;
+const MAX_REF_DEPTH = 10;
+
+const isObject = (value: unknown): value is JsonObject => !!value && typeof value === "object" && !Array.isArray(value);
+const asObject = (value: unknown): JsonObject => (isObject(value) ? value : {});
+const asObjects = (value: unknown): JsonObject[] => (Array.isArray(value) ? value.filter(isObject) : []);
+const asText = (value: unknown) => (typeof value === "string" || typeof value === "number" ? String(value) : "");
+
+// Resolve "$ref" locais (#/components/..., #/definitions/...); referências circulares param em MAX_REF_DEPTH
+const createRefResolver = (document: JsonObject) => {
+  const lookup = (ref: string) => {
+    if (!ref.startsWith("#/")) return undefined;
+    return ref
+      .slice(2)
+      .split("/")
+      .map((part) => part.replace(/~1/g, "/").replace(/~0/g, "~"))
+      .reduce<unknown>((node, part) => (isObject(node) ? node[part] : undefined), document);
+  };
+
+  const resolve = (value: unknown, depth = 0): unknown => {
+    if (Array.isArray(value)) return value.map((item) => resolve(item, depth));
+    if (!isObject(value)) return value;
+    if (typeof value.$ref === "string") {
+      if (depth >= MAX_REF_DEPTH) return {};
+      const { $ref, ...rest } = value;
+      return resolve({ ...asObject(lookup($ref)), ...rest }, depth + 1);
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolve(item, depth)]));
+  };
+
+  return resolve;
+};
+
+// Nomes de funções (tools) aceitam só letras sem acento, números, "_" e "-"
+export const sanitizePowerName = (raw: string, fallback: string) => {
+  const name = raw
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-zA-Z0-9_-]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return (name || fallback).slice(0, MAX_POWER_NAME_LENGTH);
+};
+
+const toPowerName = (operation: JsonObject, method: string, path: string) =>
+  sanitizePowerName(asText(operation.operationId) || `${method}_${path}`, method);
+
+// Servidores do OpenAPI 3 podem ter variáveis ({region}); usa os valores padrão
+const resolveBaseUrl = (document: JsonObject) => {
+  const [server] = asObjects(document.servers);
+  if (server) {
+    const variables = asObject(server.variables);
+    return asText(server.url).replace(/\{([^}]+)\}/g, (match, name: string) => asText(asObject(variables[name]).default) || match);
+  }
+  if (typeof document.host === "string" && document.host) {
+    const schemes = Array.isArray(document.schemes) ? document.schemes.map(asText) : [];
+    const scheme = schemes.includes("https") ? "https" : schemes[0] || "https";
+    return `${scheme}://${document.host}${asText(document.basePath)}`;
+  }
+  return "";
+};
+
+// Só o que o JSON Schema dos tools aceita; exemplos e metadados do OpenAPI ficam de fora
+const toParameterSchema = (schema: unknown, description?: string): JsonObject => {
+  const base: JsonObject = isObject(schema) ? { ...schema } : { type: "string" };
+  for (const key of ["example", "examples", "xml", "externalDocs", "readOnly", "writeOnly", "deprecated", "nullable"]) {
+    delete base[key];
+  }
+  if (description && !base.description) base.description = description;
+  if (!base.type && !base.enum && !base.oneOf && !base.anyOf && !base.allOf) base.type = "string";
+  return base;
+};
+
+// Corpo JSON da operação (OpenAPI 3: requestBody; Swagger 2: parâmetro "in: body")
+const findBodySchema = (operation: JsonObject, parameters: JsonObject[]) => {
+  const requestBody = asObject(operation.requestBody);
+  const content = requestBody.content;
+  if (isObject(content)) {
+    const jsonType = Object.keys(content).find((type) => type.includes("json")) || Object.keys(content)[0];
+    return { schema: asObject(content[jsonType]).schema, required: !!requestBody.required };
+  }
+  const bodyParameter = parameters.find((parameter) => parameter.in === "body");
+  return bodyParameter ? { schema: bodyParameter.schema, required: !!bodyParameter.required } : null;
+};
+
+const buildOperation = (
+  method: string,
+  path: string,
+  pathItem: JsonObject,
+  operation: JsonObject,
+  baseUrl: string,
+  reservedNames: Set<string>,
+): ImportableOperation => {
+  const upperMethod = method.toUpperCase();
+  // Parâmetros do path valem para todas as operações; os da operação os sobrescrevem
+  const parameterMap = new Map<string, JsonObject>();
+  for (const parameter of [...asObjects(pathItem.parameters), ...asObjects(operation.parameters)]) {
+    parameterMap.set(`${asText(parameter.in)}:${asText(parameter.name)}`, parameter);
+  }
+  const parameters = [...parameterMap.values()];
+
+  const properties: JsonObject = {};
+  const required: string[] = [];
+  const queryPairs: string[] = [];
+  const renamed: { from: string; to: string }[] = [];
+  let resolvedPath = path;
+
+  // Variáveis do sistema têm prioridade sobre os argumentos da IA no mesmo placeholder, e cada argumento
+  // preenche um só campo, então um parâmetro com o nome de uma variável ou de um argumento já criado
+  // (ex.: "id" no path e no corpo) recebe outro nome de argumento
+  const argumentName = (name: string) => {
+    if (!reservedNames.has(name) && !(name in properties)) return name;
+    let candidate = `${name}_param`;
+    for (let index = 2; reservedNames.has(candidate) || candidate in properties; index++) candidate = `${name}_param${index}`;
+    renamed.push({ from: name, to: candidate });
+    return candidate;
+  };
+
+  for (const parameter of parameters) {
+    if (parameter.in !== "path" && parameter.in !== "query") continue;
+    const name = asText(parameter.name);
+    if (!name) continue;
+    const argument = argumentName(name);
+    // Swagger 2 descreve o tipo direto no parâmetro, sem "schema"
+    const schema = parameter.schema || (parameter.type ? { type: parameter.type, enum: parameter.enum, items: parameter.items } : undefined);
+    properties[argument] = toParameterSchema(JSON.parse(JSON.stringify(schema ?? null)), asText(parameter.description) || undefined);
+    if (parameter.in === "path" || parameter.required) required.push(argument);
+    if (parameter.in === "query") queryPairs.push(`${encodeURIComponent(name)}={${argument}}`);
+    else if (argument !== name) resolvedPath = resolvedPath.split(`{${name}}`).join(`{${argument}}`);
+  }
+
+  let body: JsonObject | null = null;
+  const bodySchema = BODY_METHODS.has(upperMethod) ? findBodySchema(operation, parameters) : null;
+  if (bodySchema && isObject(bodySchema.schema)) {
+    const bodyProperties = asObject(bodySchema.schema.properties);
+    const bodyRequired = new Set(bodySchema.required && Array.isArray(bodySchema.schema.required) ? bodySchema.schema.required.map(asText) : []);
+    body = {};
+    for (const [name, schema] of Object.entries(bodyProperties)) {
+      const argument = argumentName(name);
+      properties[argument] = toParameterSchema(schema);
+      body[name] = `{${argument}}`;
+      if (bodyRequired.has(name)) required.push(argument);
+    }
+  }
+
+  const summary = asText(operation.summary).trim();
+  const details = asText(operation.description).trim();
+  const description = [summary, details && details !== summary ? details : ""].filter(Boolean).join("\n\n");
+  const url = `${baseUrl.replace(/\/+$/, "")}${resolvedPath}${queryPairs.length ? `?${queryPairs.join("&")}` : ""}`;
+
+  return {
+    key: `${upperMethod} ${path}`,
+    method: upperMethod,
+    path,
+    summary: summary || details.split("\n")[0] || "",
+    renamed,
+    power: {
+      name: toPowerName(operation, method, path),
+      description: description || `${upperMethod} ${path}`,
+      method: upperMethod,
+      url,
+      headers: { "Content-Type": "application/json" },
+      body,
+      parameters_schema: { type: "object", properties, required },
+    },
+  };
+};
+
+// Lança Error com mensagem para o usuário quando o texto não é um documento suportado.
+// reservedNames são as variáveis do sistema, que não podem servir de nome para os argumentos.
+export const parseOpenApi = (text: string, baseUrlOverride?: string, reservedNames: string[] = []): ParsedOpenApi => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    try {
+      document = parseYaml(text);
+    } catch (e) {
+      throw new Error(`O documento precisa estar em JSON ou YAML válido: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  if (!isObject(document) || (!document.openapi && !document.swagger) || !isObject(document.paths)) {
+    throw new Error("Documento OpenAPI inválido: campos \"openapi\" (ou \"swagger\") e \"paths\" são obrigatórios.");
+  }
+
+  const resolve = createRefResolver(document);
+  const baseUrl = baseUrlOverride?.trim() || resolveBaseUrl(document);
+  const operations: ImportableOperation[] = [];
+  const reserved = new Set(reservedNames);
+
+  for (const [path, rawPathItem] of Object.entries(document.paths)) {
+    const pathItem = resolve(rawPathItem);
+    if (!isObject(pathItem)) continue;
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (isObject(operation)) {
+        operations.push(buildOperation(method, path, pathItem, operation, baseUrl, reserved));
+      }
+    }
+  }
+
+  // operationId ausente ou repetido pode gerar nomes iguais; os poderes precisam de nomes distintos
+  const usedNames = new Map<string, number>();
+  for (const operation of operations) {
+    const count = (usedNames.get(operation.power.name) || 0) + 1;
+    usedNames.set(operation.power.name, count);
+    if (count > 1) {
+      const suffix = `_${count}`;
+      operation.power.name = `${operation.power.name.slice(0, MAX_POWER_NAME_LENGTH - suffix.length)}${suffix}`;
+    }
+  }
+
+  return { title: asText(asObject(document.info).title) || "API", baseUrl, operations };
+};
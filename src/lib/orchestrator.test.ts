@@ -0,0 +1,180 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createOpenAITransport } from "@/lib/llm";
+import {
+  ChatMessage,
+  createOrchestrator,
+  isInterruption,
+  OrchestratorConfig,
+  OrchestratorEvent,
+  ToolDefinition,
+  trimHistory,
+} from "@/lib/orchestrator";
+import { createFetchSender, FakeHandler, FakeOpenAIServer, startFakeOpenAIServer, toolCall } from "@/test/fakeOpenAIServer";
+
+const weatherTool: ToolDefinition = {
+  type: "function",
+  function: {
+    name: "consultar_clima",
+    description: "Consulta a previsão do tempo",
+    parameters: { type: "object", properties: { cidade: { type: "string" } }, required: ["cidade"] },
+  },
+};
+
+let server: FakeOpenAIServer | null = null;
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+});
+
+const setup = async (handler: FakeHandler, overrides: Partial<OrchestratorConfig> = {}) => {
+  server = await startFakeOpenAIServer(handler);
+  const events: OrchestratorEvent[] = [];
+  const executePower = vi.fn(async () => JSON.stringify({ status: 200, ok: true, data: { temperatura: 22 } }));
+  let now = 0;
+  const orchestrator = createOrchestrator({
+    transport: createOpenAITransport(createFetchSender(server.baseUrl)),
+    executePower,
+    tools: [weatherTool],
+    systemPrompt: "Prompt do sistema",
+    assistantPrompt: "Prompt do assistente",
+    memoryLength: 10,
+    maxToolSteps: 3,
+    // Cada leitura avança 5 ms, para que latências e durações sejam previsíveis
+    clock: { now: () => (now += 5) },
+    onEvent: (event) => events.push(event),
+    ...overrides,
+  });
+  return { server, orchestrator, events, executePower };
+};
+
+describe("loop de poderes", () => {
+  it("executa o poder pedido e devolve o resultado para a IA até a resposta final", async () => {
+    const { server, orchestrator, events, executePower } = await setup((_body, index) =>
+      index === 0
+        ? { tool_calls: [toolCall("call_1", "consultar_clima", { cidade: "Curitiba" })] }
+        : { content: "Em Curitiba faz 22 graus." },
+    );
+
+    const answer = await orchestrator.run("Como está o tempo em Curitiba?");
+
+    expect(answer).toBe("Em Curitiba faz 22 graus.");
+    expect(executePower).toHaveBeenCalledWith(toolCall("call_1", "consultar_clima", { cidade: "Curitiba" }));
+    expect(server.requests).toHaveLength(2);
+    expect(server.requests[0].tools).toHaveLength(1);
+
+    const toolMessage = server.requests[1].messages.find((message) => message.role === "tool");
+    expect(toolMessage).toMatchObject({ tool_call_id: "call_1", name: "consultar_clima" });
+    expect(JSON.parse(toolMessage?.content || "{}")).toMatchObject({ data: { temperatura: 22 } });
+
+    expect(orchestrator.getHistory().map((message) => message.role)).toEqual(["user", "assistant", "tool", "assistant"]);
+    expect(events).toContainEqual(expect.objectContaining({ type: "tool_result", durationMs: 5 }));
+    expect(events.filter((event) => event.type === "delta").map((event) => event.type === "delta" && event.text).join(""))
+      .toBe("Em Curitiba faz 22 graus.");
+    expect(events[events.length - 1]).toEqual({ type: "status", status: "idle" });
+  });
+
+  it("devolve o erro do executor como resultado do poder, sem encerrar o turno", async () => {
+    const { server, orchestrator } = await setup(
+      (_body, index) => (index === 0 ? { tool_calls: [toolCall("call_1", "consultar_clima", { cidade: "Recife" })] } : { content: "Não consegui consultar." }),
+      { executePower: async () => { throw new Error("API fora do ar"); } },
+    );
+
+    await expect(orchestrator.run("E em Recife?")).resolves.toBe("Não consegui consultar.");
+    const toolMessage = server.requests[1].messages.find((message) => message.role === "tool");
+    expect(JSON.parse(toolMessage?.content || "{}")).toEqual({ error: "API fora do ar" });
+  });
+
+  it("faz a última chamada sem poderes ao atingir o limite de passos", async () => {
+    const { server, orchestrator, executePower } = await setup(
+      (body, index) => (body.tools ? { tool_calls: [toolCall(`call_${index}`, "consultar_clima", { cidade: "Natal" })] } : { content: "Resposta sem poderes." }),
+      { maxToolSteps: 2 },
+    );
+
+    await expect(orchestrator.run("Clima em Natal")).resolves.toBe("Resposta sem poderes.");
+    expect(executePower).toHaveBeenCalledTimes(2);
+    expect(server.requests).toHaveLength(3);
+    expect(server.requests[2].tools).toBeUndefined();
+  });
+
+  it("não executa o poder quando o usuário recusa a confirmação", async () => {
+    const { server, orchestrator, executePower, events } = await setup(
+      (_body, index) => (index === 0 ? { tool_calls: [toolCall("call_1", "consultar_clima", { cidade: "Belém" })] } : { content: "Tudo bem, não vou consultar." }),
+      { confirmAction: () => Promise.resolve({ approved: false, answer: "não" }) },
+    );
+
+    await orchestrator.run("Clima em Belém");
+    expect(executePower).not.toHaveBeenCalled();
+    expect(events).toContainEqual({ type: "status", status: "awaiting_confirmation" });
+    const toolMessage = server.requests[1].messages.find((message) => message.role === "tool");
+    expect(JSON.parse(toolMessage?.content || "{}")).toMatchObject({ confirmation: "declined", answer: "não" });
+  });
+});
+
+describe("interrupção", () => {
+  it("cancela o turno em andamento e guarda só o trecho falado", async () => {
+    let release = () => {};
+    const { server, orchestrator } = await setup(() => new Promise((resolve) => {
+      release = () => resolve({ content: "Resposta que não chega a ser usada." });
+    }));
+
+    const running = orchestrator.run("Conte uma história longa");
+    await server.waitForRequests(1);
+    orchestrator.interrupt("Era uma vez");
+    release();
+
+    const error = await running.catch((e) => e);
+    expect(isInterruption(error)).toBe(true);
+    expect(orchestrator.getHistory()).toEqual([
+      { role: "user", content: "Conte uma história longa" },
+      { role: "assistant", content: "Era uma vez", interrupted: true },
+    ]);
+  });
+
+  it("substitui a resposta completa pelo trecho falado e o marca no próximo pedido", async () => {
+    const { server, orchestrator, events } = await setup((_body, index) => ({ content: index === 0 ? "Primeira resposta bem comprida." : "Ok." }));
+
+    await orchestrator.run("Oi");
+    orchestrator.interrupt("Primeira resposta");
+    expect(events).toContainEqual(expect.objectContaining({ type: "interrupted", replaced: true }));
+
+    await orchestrator.run("Pode parar");
+    const assistantMessages = server.requests[1].messages.filter((message) => message.role === "assistant");
+    expect(assistantMessages[assistantMessages.length - 1].content).toBe("Primeira resposta… [interrompido pelo usuário]");
+    // O campo "interrupted" é interno e não vai para a API
+    expect(server.requests[1].messages.some((message) => "interrupted" in message)).toBe(false);
+  });
+});
+
+describe("histórico", () => {
+  it("envia só as últimas mensagens configuradas em memoryLength", async () => {
+    const { server, orchestrator } = await setup((_body, index) => ({ content: `Resposta ${index + 1}` }), { memoryLength: 2 });
+
+    await orchestrator.run("Pergunta 1");
+    await orchestrator.run("Pergunta 2");
+    await orchestrator.run("Pergunta 3");
+
+    expect(server.requests[2].messages.map((message) => message.content)).toEqual([
+      "Prompt do sistema",
+      "Prompt do assistente",
+      "Pergunta 2",
+      "Resposta 2",
+      "Pergunta 3",
+    ]);
+    expect(orchestrator.getHistory()).toHaveLength(6);
+  });
+
+  it("trimHistory descarta resultados de poderes que ficaram sem o pedido no início do recorte", () => {
+    const history: ChatMessage[] = [
+      { role: "user", content: "Clima?" },
+      { role: "assistant", content: null, tool_calls: [toolCall("call_1", "consultar_clima", {})] },
+      { role: "tool", tool_call_id: "call_1", name: "consultar_clima", content: "{}" },
+      { role: "tool", tool_call_id: "call_2", name: "consultar_clima", content: "{}" },
+      { role: "assistant", content: "22 graus." },
+    ];
+
+    expect(trimHistory(history, 3)).toEqual([history[4]]);
+    expect(trimHistory(history, 5)).toEqual(history);
+    expect(trimHistory(history, 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,325 @@
+// Orquestrador da conversa: monta as chamadas à IA, executa poderes e mantém o histórico.
+// Não depende de React nem do navegador, para poder ser usado pela voz, por um chat de texto ou em testes.
+
+export interface ToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+export interface ChatMessage {
+  role: "user" | "assistant" | "system" | "tool";
+  content: string | null;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+  name?: string;
+  // Resposta cortada pelo usuário (barge-in); content guarda apenas o trecho que chegou a ser falado
+  interrupted?: boolean;
+}
+
+export interface ToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description: string | null;
+    parameters: Record<string, unknown> | null;
+  };
+}
+
+export interface LlmRequest {
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmResponse {
+  message: ChatMessage;
+  // Nem todo provedor informa o consumo (ex.: servidores próprios sem suporte)
+  usage?: TokenUsage;
+}
+
+export interface LlmTransport {
+  complete: (request: LlmRequest) => Promise<LlmResponse>;
+  // Opcional: mesma chamada via streaming, repassando cada pedaço de texto assim que chega
+  stream?: (request: LlmRequest, onDelta: (text: string) => void) => Promise<LlmResponse>;
+}
+
+// Executa um poder solicitado pela IA e devolve o conteúdo que vai para a mensagem "tool"
+export type PowerExecutor = (toolCall: ToolCall) => Promise<string>;
+
+export interface ConfirmationResult {
+  approved: boolean;
+  // O que o usuário respondeu, quando houve resposta
+  answer?: string;
+}
+
+// Pede ao usuário que confirme um poder antes da execução; devolve null (sem promessa) quando o poder não
+// exige confirmação. O signal é abortado se o turno for interrompido enquanto a resposta é aguardada.
+export type ConfirmAction = (toolCall: ToolCall, signal: AbortSignal) => Promise<ConfirmationResult> | null;
+
+export interface Clock {
+  now: () => number;
+}
+
+export type AssistantStatus = "idle" | "thinking" | "executing_power" | "awaiting_confirmation";
+
+export type OrchestratorEvent =
+  | { type: "status"; status: AssistantStatus }
+  | { type: "delta"; text: string }
+  | { type: "message"; message: ChatMessage; latencyMs?: number; usage?: TokenUsage }
+  | { type: "tool_result"; toolCall: ToolCall; content: string; durationMs: number }
+  | { type: "confirmation"; toolCall: ToolCall; approved: boolean; answer?: string }
+  | { type: "still_working"; step: number }
+  // replaced: a resposta já estava completa no histórico e foi substituída pelo trecho falado
+  | { type: "interrupted"; message: ChatMessage; replaced: boolean }
+  | { type: "history"; history: ChatMessage[] };
+
+export interface OrchestratorConfig {
+  transport: LlmTransport;
+  executePower: PowerExecutor;
+  confirmAction?: ConfirmAction;
+  tools: ToolDefinition[];
+  systemPrompt: string;
+  assistantPrompt: string;
+  memoryLength: number;
+  maxToolSteps: number;
+  clock?: Clock;
+  onEvent?: (event: OrchestratorEvent) => void;
+}
+
+export interface Orchestrator {
+  run: (userInput: string) => Promise<string>;
+  configure: (config: Partial<OrchestratorConfig>) => void;
+  interrupt: (spokenText: string) => void;
+  // Acrescenta ao histórico uma mensagem trocada fora do loop da IA (ex.: atendimento humano), sem chamar o modelo
+  append: (message: ChatMessage) => void;
+  getHistory: () => ChatMessage[];
+  reset: () => void;
+}
+
+interface ActiveRun {
+  controller: AbortController;
+  previousHistory: ChatMessage[];
+  turnMessages: ChatMessage[];
+}
+
+const systemClock: Clock = { now: () => Date.now() };
+
+const interruptionError = () => {
+  const error = new Error("Conversa interrompida pelo usuário.");
+  error.name = "AbortError";
+  return error;
+};
+
+export const isInterruption = (error: unknown) => error instanceof Error && error.name === "AbortError";
+
+// Converte para o formato aceito pela API, que rejeita campos desconhecidos como "interrupted"
+export const toApiMessage = ({ interrupted, ...message }: ChatMessage): ChatMessage =>
+  interrupted ? { ...message, content: `${message.content || ""}… [interrompido pelo usuário]` } : message;
+
+// Descarta um pedido de poderes que ficou sem resultados, pois a API o rejeitaria no próximo turno
+const completedMessages = (messages: ChatMessage[]) => {
+  const last = messages[messages.length - 1];
+  return last?.role === "assistant" && last.tool_calls?.length ? messages.slice(0, -1) : messages;
+};
+
+// Remove mensagens "tool" órfãs do início do histórico recortado, pois a API exige que venham após o tool_calls
+export const trimHistory = (history: ChatMessage[], length: number) => {
+  const trimmed = length > 0 ? history.slice(-length) : [];
+  while (trimmed.length > 0 && trimmed[0].role === "tool") {
+    trimmed.shift();
+  }
+  return trimmed;
+};
+
+export const createOrchestrator = (initialConfig: OrchestratorConfig): Orchestrator => {
+  let config = initialConfig;
+  let history: ChatMessage[] = [];
+  let activeRun: ActiveRun | null = null;
+
+  const emit = (event: OrchestratorEvent) => config.onEvent?.(event);
+  const clock = () => config.clock || systemClock;
+
+  const setHistory = (next: ChatMessage[]) => {
+    history = next;
+    emit({ type: "history", history });
+  };
+
+  const callModel = (request: LlmRequest) => {
+    const { transport } = config;
+    return transport.stream
+      ? transport.stream(request, (text) => emit({ type: "delta", text }))
+      : transport.complete(request);
+  };
+
+  const confirmToolCall = async (toolCall: ToolCall, signal: AbortSignal): Promise<ConfirmationResult | null> => {
+    const pending = config.confirmAction?.(toolCall, signal);
+    if (!pending) return null;
+    emit({ type: "status", status: "awaiting_confirmation" });
+    const confirmation = await pending;
+    if (signal.aborted) throw interruptionError();
+    emit({ type: "confirmation", toolCall, ...confirmation });
+    if (confirmation.approved) emit({ type: "status", status: "executing_power" });
+    return confirmation;
+  };
+
+  // A decisão do usuário fica registrada na própria mensagem "tool", que é o que vai para o histórico
+  const withConfirmation = (content: string, confirmation: ConfirmationResult) => {
+    let result: unknown = content;
+    try {
+      result = JSON.parse(content);
+    } catch {
+      // Mantém o texto como veio do executor
+    }
+    return JSON.stringify({ confirmation: "approved", answer: confirmation.answer ?? null, result });
+  };
+
+  const runToolCalls = async (toolCalls: ToolCall[], signal: AbortSignal) => {
+    const outputs: ChatMessage[] = [];
+    for (const toolCall of toolCalls) {
+      const confirmation = await confirmToolCall(toolCall, signal);
+      const startedAt = clock().now();
+      let content: string;
+      try {
+        if (confirmation && !confirmation.approved) {
+          content = JSON.stringify({
+            confirmation: "declined",
+            answer: confirmation.answer ?? null,
+            error: "O usuário não confirmou a ação; o poder não foi executado.",
+          });
+        } else {
+          content = await config.executePower(toolCall);
+          if (confirmation) content = withConfirmation(content, confirmation);
+        }
+      } catch (toolError) {
+        console.error(`[Orchestrator] Erro ao executar poder ${toolCall.function?.name}:`, toolError);
+        content = JSON.stringify({ error: toolError instanceof Error ? toolError.message : String(toolError) });
+      }
+      emit({ type: "tool_result", toolCall, content, durationMs: clock().now() - startedAt });
+      outputs.push({
+        tool_call_id: toolCall.id,
+        role: "tool",
+        name: toolCall.function.name,
+        content: content,
+      });
+    }
+    return outputs;
+  };
+
+  const run = async (userInput: string) => {
+    const userMessage: ChatMessage = { role: "user", content: userInput };
+    const current: ActiveRun = {
+      controller: new AbortController(),
+      previousHistory: history,
+      turnMessages: [userMessage],
+    };
+    const { controller, previousHistory } = current;
+    activeRun = current;
+    setHistory([...previousHistory, ...current.turnMessages]);
+    emit({ type: "message", message: userMessage });
+
+    // Após cada etapa assíncrona, uma interrupção encerra o turno sem tocar mais no histórico
+    const checkInterrupted = () => {
+      if (controller.signal.aborted) throw interruptionError();
+    };
+
+    try {
+      // Loop de agente: oferece os poderes até a IA produzir uma resposta final em texto
+      for (let step = 0; ; step++) {
+        // Ao atingir o limite de passos, a última chamada vai sem tools para forçar uma resposta em texto
+        const offerTools = config.tools.length > 0 && step < config.maxToolSteps;
+        const messagesForApi: ChatMessage[] = [
+          { role: "system", content: config.systemPrompt },
+          { role: "assistant", content: config.assistantPrompt },
+          ...trimHistory(previousHistory, config.memoryLength),
+          ...current.turnMessages,
+        ].map(toApiMessage);
+
+        emit({ type: "status", status: "thinking" });
+        const requestedAt = clock().now();
+        let responseMessage: ChatMessage;
+        let usage: TokenUsage | undefined;
+        try {
+          ({ message: responseMessage, usage } = await callModel({
+            messages: messagesForApi,
+            tools: offerTools ? config.tools : undefined,
+            signal: controller.signal,
+          }));
+        } catch (error) {
+          checkInterrupted();
+          throw error;
+        }
+        checkInterrupted();
+        const latencyMs = clock().now() - requestedAt;
+
+        if (!responseMessage?.tool_calls?.length) {
+          const answer = responseMessage?.content || "";
+          const assistantMessage: ChatMessage = { role: "assistant", content: answer };
+          current.turnMessages = [...current.turnMessages, assistantMessage];
+          setHistory([...previousHistory, ...current.turnMessages]);
+          emit({ type: "message", message: assistantMessage, latencyMs, usage });
+          return answer;
+        }
+
+        if (step > 0) {
+          emit({ type: "still_working", step });
+        }
+
+        current.turnMessages = [...current.turnMessages, responseMessage];
+        setHistory([...previousHistory, ...current.turnMessages]);
+        emit({ type: "message", message: responseMessage, latencyMs, usage });
+
+        emit({ type: "status", status: "executing_power" });
+        const toolOutputs = await runToolCalls(responseMessage.tool_calls, controller.signal);
+        checkInterrupted();
+        toolOutputs.forEach((output) => emit({ type: "message", message: output }));
+
+        current.turnMessages = [...current.turnMessages, ...toolOutputs];
+        setHistory([...previousHistory, ...current.turnMessages]);
+      }
+    } finally {
+      if (activeRun === current) {
+        activeRun = null;
+        emit({ type: "status", status: "idle" });
+      }
+    }
+  };
+
+  // Barge-in: o usuário começou a falar. Cancela o turno em andamento (se houver) e registra
+  // no histórico apenas o trecho da resposta que chegou a ser falado, marcado como interrompido.
+  const interrupt = (spokenText: string) => {
+    const interruptedMessage: ChatMessage = { role: "assistant", content: spokenText, interrupted: true };
+
+    if (activeRun) {
+      const { controller, previousHistory, turnMessages } = activeRun;
+      activeRun = null;
+      controller.abort();
+      setHistory([...previousHistory, ...completedMessages(turnMessages), ...(spokenText ? [interruptedMessage] : [])]);
+      if (spokenText) emit({ type: "interrupted", message: interruptedMessage, replaced: false });
+      emit({ type: "status", status: "idle" });
+      return;
+    }
+
+    const last = history[history.length - 1];
+    if (last?.role === "assistant" && !last.tool_calls && !last.interrupted) {
+      setHistory([...history.slice(0, -1), interruptedMessage]);
+      emit({ type: "interrupted", message: interruptedMessage, replaced: true });
+    }
+  };
+
+  return {
+    run,
+    interrupt,
+    append: (message) => setHistory([...history, message]),
+    configure: (partial) => {
+      config = { ...config, ...partial };
+    },
+    getHistory: () => history,
+    reset: () => setHistory([]),
+  };
+};
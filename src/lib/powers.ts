@@ -0,0 +1,154 @@
+import { renderPowerRequest, systemVariableValues } from "@/lib/utils";
+import { powersToTools } from "../../supabase/functions/_shared/llm.ts";
+import type { LlmTransport, PowerExecutor, ToolCall } from "@/lib/orchestrator";
+import { applyResponseTransform, ResponseTransform } from "@/lib/responseTransform";
+import { validateArguments, ValidationIssue } from "@/lib/schemaValidation";
+
+export interface Power {
+  id: string;
+  name: string;
+  description: string | null;
+  method: string;
+  url: string | null;
+  headers: Record<string, string> | null;
+  body: Record<string, unknown> | null;
+  api_key_id: string | null;
+  parameters_schema: Record<string, unknown> | null;
+  // Seleção/resumo da resposta antes de voltar para a IA (migração 0026)
+  response_transform: ResponseTransform | null;
+  // Pede o "sim" do usuário antes de executar (migração 0027)
+  requires_confirmation: boolean;
+}
+
+export interface ProxyRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string> | null;
+  body: Record<string, unknown> | null;
+  // Com power_id, o proxy-api refaz a requisição a partir do poder salvo, de arguments e de variables,
+  // e só então injeta a chave do poder; url, método, cabeçalhos e corpo enviados aqui são ignorados
+  power_id?: string;
+  variables?: Record<string, unknown>;
+  api_key_id?: string | null;
+  // Registro de execuções (tabela power_executions): o proxy-api grava a chamada com estes dados
+  system_power_id?: string;
+  conversation_id?: string | null;
+  source?: "assistant" | "system" | "rerun";
+  arguments?: Record<string, unknown> | null;
+}
+
+// Assinatura compatível com supabase.functions.invoke('proxy-api', ...)
+export type ProxyInvoker = (request: ProxyRequest) => Promise<{ data: unknown; error: { message: string } | null }>;
+
+// Mesma definição que o ai-proxy monta no servidor para as conversas dos visitantes
+export { powersToTools };
+// Monta a requisição do poder substituindo variáveis do sistema e argumentos da IA
+export const buildPowerRequest = (
+  power: Power,
+  args: Record<string, unknown>,
+  systemVariables: Record<string, unknown>,
+): ProxyRequest => {
+  const variables = systemVariableValues(systemVariables);
+  const request = renderPowerRequest(power, args, variables);
+  return { ...request, power_id: power.id, arguments: args, variables };
+};
+
+// Erro devolvido à IA como resultado do tool quando os argumentos não servem, para que ela corrija e tente de novo
+export interface InvalidArgumentsResult {
+  error: "invalid_arguments";
+  message: string;
+  issues: ValidationIssue[];
+}
+
+// Lê os argumentos gerados pela IA e os valida contra o parameters_schema do poder
+export const parsePowerArguments = (
+  power: Power,
+  rawArguments: string | undefined,
+): { args: Record<string, unknown>; error: null } | { args: null; error: InvalidArgumentsResult } => {
+  let args: unknown;
+  try {
+    args = JSON.parse(rawArguments || "{}");
+  } catch (e) {
+    return {
+      args: null,
+      error: {
+        error: "invalid_arguments",
+        message: `Os argumentos de '${power.name}' não são um JSON válido. Envie um objeto JSON.`,
+        issues: [{ path: "$", message: (e as Error).message }],
+      },
+    };
+  }
+
+  const schema = power.parameters_schema || { type: "object" };
+  const issues = validateArguments(schema.type ? schema : { ...schema, type: "object" }, args);
+  if (issues.length) {
+    return {
+      args: null,
+      error: {
+        error: "invalid_arguments",
+        message: `Os argumentos de '${power.name}' não seguem o schema de parâmetros. Corrija os campos indicados e chame o poder novamente.`,
+        issues,
+      },
+    };
+  }
+  // Opcionais enviados como null ficam de fora, para que o placeholder seja tratado como não preenchido
+  const filled = Object.fromEntries(Object.entries(args as Record<string, unknown>).filter(([, value]) => value !== null));
+  return { args: filled, error: null };
+};
+
+// Teste de poderes a partir de uma frase de exemplo: a IA recebe só este poder e devolve os argumentos que usaria
+export const extractPowerArguments = async (
+  transport: LlmTransport,
+  power: Power,
+  sentence: string,
+): Promise<Record<string, unknown>> => {
+  const { message } = await transport.complete({
+    messages: [
+      {
+        role: "system",
+        content: `Extraia da mensagem do usuário os argumentos do poder "${power.name}" e chame-o. Não invente valores que não estejam na mensagem.`,
+      },
+      { role: "user", content: sentence },
+    ],
+    tools: powersToTools([power]),
+  });
+  const toolCall = message.tool_calls?.find(call => call.function.name === power.name);
+  if (!toolCall) throw new Error("A IA não chamou o poder para esta frase. Tente uma frase mais próxima do que um usuário pediria.");
+  try {
+    return JSON.parse(toolCall.function.arguments || "{}");
+  } catch {
+    throw new Error("A IA devolveu argumentos que não são um JSON válido.");
+  }
+};
+
+interface ProxyPowerExecutorOptions {
+  powers: Power[];
+  systemVariables: Record<string, unknown>;
+  invoke: ProxyInvoker;
+  // Conversa em andamento, para associar as execuções registradas
+  conversationId?: string | null;
+}
+
+export const createProxyPowerExecutor = ({ powers, systemVariables, invoke, conversationId = null }: ProxyPowerExecutorOptions): PowerExecutor =>
+  async (toolCall: ToolCall) => {
+    const functionName = toolCall.function.name;
+    const powerToExecute = powers.find(p => p.name === functionName);
+
+    if (!powerToExecute) {
+      console.warn(`[Orchestrator] Poder não encontrado: ${functionName}`);
+      return JSON.stringify({ error: `Poder '${functionName}' não encontrado.` });
+    }
+
+    const { args: functionArgs, error: argumentsError } = parsePowerArguments(powerToExecute, toolCall.function.arguments);
+    if (argumentsError) {
+      console.warn(`[Orchestrator] Argumentos inválidos para ${functionName}:`, argumentsError.issues);
+      return JSON.stringify(argumentsError);
+    }
+
+    const request = { ...buildPowerRequest(powerToExecute, functionArgs, systemVariables), conversation_id: conversationId, source: "assistant" as const };
+    const { data: toolResult, error: invokeError } = await invoke(request);
+
+    return invokeError
+      ? JSON.stringify({ error: invokeError.message })
+      : JSON.stringify(applyResponseTransform(toolResult, powerToExecute.response_transform));
+  };
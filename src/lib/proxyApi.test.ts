@@ -0,0 +1,159 @@
+import { createServer, Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { afterEach, describe, expect, it } from "vitest";
+import { createProxyHandler } from "../../supabase/functions/proxy-api/handler.ts";
+
+// Roda o handler do proxy-api contra uma API local. Requisições avulsas (o "Testar Poder" das telas de poderes)
+// não consultam o banco, então o cliente admin falha se for usado; poderes salvos leem de tabelas em memória.
+
+interface ReceivedRequest {
+  method?: string;
+  url?: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+let server: Server | null = null;
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+  server = null;
+});
+
+const startApi = async (status: number, body: string) => {
+  const received: ReceivedRequest[] = [];
+  server = createServer((req, res) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      received.push({ method: req.method, url: req.url, headers: req.headers, body: data });
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(body);
+    });
+  });
+  await new Promise<void>((resolve) => server?.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { baseUrl: `http://127.0.0.1:${port}`, received };
+};
+
+type Row = Record<string, unknown>;
+
+// Só o que o proxy-api usa do query builder: select, eq, maybeSingle, insert e update
+const createFakeAdmin = (tables: Record<string, Row[]>) => {
+  const inserted: Record<string, Row[]> = {};
+  const from = (table: string) => {
+    let rows = tables[table] || [];
+    const query = {
+      select: () => query,
+      update: () => query,
+      eq: (column: string, value: unknown) => {
+        rows = rows.filter((row) => row[column] === value);
+        return query;
+      },
+      maybeSingle: async () => ({ data: rows[0] ?? null, error: null }),
+      insert: async (row: Row) => {
+        (inserted[table] ||= []).push(row);
+        return { error: null };
+      },
+      then: (resolve: (result: { data: Row[]; error: null }) => void) => resolve({ data: rows, error: null }),
+    };
+    return query;
+  };
+  return { client: { from } as unknown as SupabaseClient, inserted };
+};
+
+const handler = createProxyHandler({
+  createAdminClient: () =>
+    new Proxy({}, { get: () => { throw new Error("O banco não deveria ser consultado"); } }) as SupabaseClient,
+  isWorkspaceMember: async () => false,
+});
+
+const invoke = (payload: unknown) =>
+  handler(new Request("http://localhost/functions/v1/proxy-api", { method: "POST", body: JSON.stringify(payload) }));
+
+describe("proxy-api com requisição avulsa", () => {
+  it("envia a requisição como recebida e devolve a resposta sem registrar execução", async () => {
+    const api = await startApi(201, JSON.stringify({ id: 7 }));
+
+    const response = await invoke({
+      url: `${api.baseUrl}/pedidos?origem=teste`,
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Loja": "centro" },
+      body: { produto: "café", quantidade: 2 },
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: 201, ok: true, data: { id: 7 } });
+    expect(api.received).toHaveLength(1);
+    expect(api.received[0]).toMatchObject({ method: "POST", url: "/pedidos?origem=teste", headers: { "x-loja": "centro" } });
+    expect(JSON.parse(api.received[0].body)).toEqual({ produto: "café", quantidade: 2 });
+  });
+
+  it("devolve erros da API e respostas em texto sem falhar", async () => {
+    const api = await startApi(404, "não encontrado");
+
+    const response = await invoke({ url: `${api.baseUrl}/pedidos/1`, method: "GET" });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: 404, ok: false, data: "não encontrado" });
+    expect(api.received[0].body).toBe("");
+  });
+
+  it("recusa payloads sem URL ou método", async () => {
+    const response = await invoke({ method: "GET" });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: "URL and method are required in the payload." });
+  });
+});
+
+describe("proxy-api com poder salvo", () => {
+  const setup = async () => {
+    const api = await startApi(200, JSON.stringify({ ok: true }));
+    const admin = createFakeAdmin({
+      powers: [{
+        id: "poder-1",
+        workspace_id: "ws-1",
+        method: "GET",
+        url: `${api.baseUrl}/clientes/{cliente}/pedidos?ip={client_ip}`,
+        headers: { "X-Cliente": "{cliente}" },
+        body: null,
+        api_key_id: null,
+      }],
+      system_powers: [
+        { workspace_id: "ws-1", enabled: true, output_variable_name: "client_ip" },
+        { workspace_id: "ws-2", enabled: true, output_variable_name: "cliente" },
+      ],
+    });
+    const invokePower = (payload: unknown) =>
+      createProxyHandler({ createAdminClient: () => admin.client, isWorkspaceMember: async () => false })(
+        new Request("http://localhost/functions/v1/proxy-api", { method: "POST", body: JSON.stringify(payload) }),
+      );
+    return { api, admin, invokePower };
+  };
+
+  it("ignora variáveis que não são do sistema do workspace", async () => {
+    const { api, admin, invokePower } = await setup();
+
+    const response = await invokePower({
+      power_id: "poder-1",
+      arguments: { cliente: "ana" },
+      variables: { client_ip: "10.0.0.1", cliente: "../../admin/x?" },
+    });
+
+    expect(response.status).toBe(200);
+    expect(api.received[0]).toMatchObject({ url: "/clientes/ana/pedidos?ip=10.0.0.1", headers: { "x-cliente": "ana" } });
+    expect(admin.inserted.power_executions).toEqual([
+      expect.objectContaining({ workspace_id: "ws-1", power_id: "poder-1", source: "assistant", status_code: 200 }),
+    ]);
+  });
+
+  it("codifica as variáveis do sistema na URL", async () => {
+    const { api, invokePower } = await setup();
+
+    await invokePower({ power_id: "poder-1", arguments: { cliente: "ana" }, variables: { client_ip: "1/../admin?x=1" } });
+
+    expect(api.received[0].url).toBe("/clientes/ana/pedidos?ip=1%2F..%2Fadmin%3Fx%3D1");
+  });
+});
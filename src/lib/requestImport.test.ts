@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { parseCurlCommand, parsePostmanCollection } from "@/lib/requestImport";
+
+describe("parseCurlCommand", () => {
+  it("lê o comando copiado do navegador, com quebras de linha, aspas e --data-raw", () => {
+    const command = `curl 'https://api.loja.com/v1/pedidos?origem=site' \\
+  -H 'accept: application/json' \\
+  -H "content-type: application/json" \\
+  -H 'authorization: Bearer abc123' \\
+  --data-raw '{"produto":"{{produto}}","quantidade":2,"nota":"it'\\''s"}' \\
+  --compressed`;
+
+    const { label, power, warnings } = parseCurlCommand(command);
+
+    expect(label).toBe("POST https://api.loja.com/v1/pedidos?origem=site");
+    expect(power).toMatchObject({
+      name: "post_pedidos",
+      method: "POST",
+      url: "https://api.loja.com/v1/pedidos?origem=site",
+      headers: { accept: "application/json", "content-type": "application/json" },
+      body: { produto: "{produto}", quantidade: 2, nota: "it's" },
+      parameters_schema: { type: "object", properties: { produto: { type: "string" } }, required: ["produto"] },
+    });
+    expect(warnings).toEqual([expect.stringContaining('"authorization" foi removido')]);
+  });
+
+  it("aceita $'...', flags com valor colado e -u sem guardar a credencial", () => {
+    const command = "curl -XPUT -u ana:segredo -H'X-Loja: centro' $'https://api.loja.com/clientes/{{cliente_id}}' -d $'{\"nome\": \"Ana\\\\nSilva\"}'";
+
+    const { power, warnings } = parseCurlCommand(command);
+
+    expect(power.method).toBe("PUT");
+    expect(power.url).toBe("https://api.loja.com/clientes/{cliente_id}");
+    expect(power.headers).toEqual({ "X-Loja": "centro", "Content-Type": "application/json" });
+    expect(power.body).toEqual({ nome: "Ana\nSilva" });
+    expect(power.parameters_schema.required).toEqual(["cliente_id"]);
+    expect(warnings).toEqual([expect.stringContaining("-u foi removida")]);
+  });
+
+  it("converte formulários, coloca entre aspas variáveis soltas no JSON e usa -G na query", () => {
+    const form = parseCurlCommand("curl https://api.loja.com/login -d usuario=ana -d 'senha={{senha}}'");
+    expect(form.power.body).toEqual({ usuario: "ana", senha: "{senha}" });
+    expect(form.power.headers).toEqual({ "Content-Type": "application/json" });
+    expect(form.warnings).toEqual([expect.stringContaining("formulário foi convertido")]);
+
+    const loose = parseCurlCommand(`curl https://api.loja.com/pedidos --json '{"idade": {{idade}}}'`);
+    expect(loose.power.body).toEqual({ idade: "{idade}" });
+    expect(loose.warnings).toEqual([expect.stringContaining("fora de aspas")]);
+
+    const get = parseCurlCommand("curl -G api.loja.com/busca -d q={{termo}}");
+    expect(get.power).toMatchObject({ method: "GET", url: "http://api.loja.com/busca?q={termo}", body: null });
+  });
+
+  it("mantém variáveis do sistema como placeholder sem virar parâmetro", () => {
+    const { power } = parseCurlCommand("curl 'https://api.loja.com/visitas?ip={{client_ip}}&pagina={{pagina}}'", ["client_ip"]);
+
+    expect(power.url).toBe("https://api.loja.com/visitas?ip={client_ip}&pagina={pagina}");
+    expect(power.parameters_schema.required).toEqual(["pagina"]);
+  });
+
+  it("recusa comandos inválidos com mensagens para o usuário", () => {
+    expect(() => parseCurlCommand("wget https://api.loja.com")).toThrow('O comando precisa começar com "curl".');
+    expect(() => parseCurlCommand("curl 'https://api.loja.com")).toThrow("aspas sem fechamento");
+    expect(() => parseCurlCommand("curl -H 'Accept: */*'")).toThrow("URL não encontrada");
+    expect(() => parseCurlCommand("curl -X HEAD https://api.loja.com")).toThrow("O método HEAD não é suportado");
+  });
+});
+
+// Trecho de uma coleção exportada pelo Postman (Collection v2.1)
+const collection = {
+  info: { name: "Loja", schema: "https://schema.getpostman.com/json/collection/v2.1.0/collection.json" },
+  auth: { type: "bearer", bearer: [{ key: "token", value: "{{token}}", type: "string" }] },
+  variable: [
+    { key: "baseUrl", value: "https://api.loja.com/v1" },
+    { key: "pedidoId", value: "" },
+  ],
+  item: [
+    {
+      name: "Pedidos",
+      item: [
+        {
+          name: "Buscar pedido",
+          request: {
+            method: "GET",
+            header: [
+              { key: "Accept", value: "application/json" },
+              { key: "X-Debug", value: "1", disabled: true },
+            ],
+            url: { raw: "{{baseUrl}}/pedidos/:pedidoId?detalhes={{detalhes}}", host: ["{{baseUrl}}"] },
+            description: "Consulta um pedido pelo número",
+          },
+        },
+        {
+          name: "Criar pedido",
+          request: {
+            method: "POST",
+            auth: { type: "noauth" },
+            header: [{ key: "Content-Type", value: "text/plain" }],
+            body: { mode: "raw", raw: '{\n  "produto": "{{produto}}",\n  "pedido": "{{pedidoId}}"\n}' },
+            url: "{{baseUrl}}/pedidos",
+          },
+        },
+      ],
+    },
+    {
+      name: "Login",
+      request: {
+        method: "POST",
+        body: {
+          mode: "urlencoded",
+          urlencoded: [
+            { key: "usuario", value: "{{usuario}}" },
+            { key: "lembrar", value: "sim", disabled: true },
+          ],
+        },
+        url: "{{baseUrl}}/login",
+      },
+    },
+    { name: "Opções", request: { method: "OPTIONS", url: "{{baseUrl}}/pedidos" } },
+  ],
+};
+
+describe("parsePostmanCollection", () => {
+  it("converte as requisições das pastas com as variáveis da coleção", () => {
+    const [buscar, criar, login] = parsePostmanCollection(JSON.stringify(collection));
+
+    expect(buscar.label).toBe("Pedidos / Buscar pedido");
+    expect(buscar.power).toMatchObject({
+      name: "Buscar_pedido",
+      description: "Consulta um pedido pelo número",
+      method: "GET",
+      url: "https://api.loja.com/v1/pedidos/{pedidoId}?detalhes={detalhes}",
+      headers: { Accept: "application/json" },
+      body: null,
+      parameters_schema: { required: ["pedidoId", "detalhes"] },
+    });
+    expect(buscar.warnings).toEqual([
+      expect.stringContaining("autenticação do Postman"),
+      "Variáveis da coleção substituídas pelo valor: baseUrl.",
+    ]);
+
+    expect(criar.power).toMatchObject({
+      method: "POST",
+      url: "https://api.loja.com/v1/pedidos",
+      headers: { "Content-Type": "application/json" },
+      body: { produto: "{produto}", pedido: "{pedidoId}" },
+    });
+    expect(criar.warnings).not.toContainEqual(expect.stringContaining("autenticação"));
+
+    expect(login.label).toBe("Login");
+    expect(login.power.body).toEqual({ usuario: "{usuario}" });
+    expect(login.warnings).toContainEqual(expect.stringContaining("formulário foi convertido"));
+  });
+
+  it("ignora métodos não suportados e recusa o que não é uma coleção", () => {
+    expect(parsePostmanCollection(JSON.stringify(collection)).map((request) => request.power.method)).toEqual(["GET", "POST", "POST"]);
+    expect(() => parsePostmanCollection("não é json")).toThrow("Collection v2.1");
+    expect(() => parsePostmanCollection(JSON.stringify({ info: {} }))).toThrow('o campo "item" é obrigatório');
+    expect(() => parsePostmanCollection(JSON.stringify({ item: [collection.item[2]] }))).toThrow("Nenhuma requisição");
+  });
+});
@@ -0,0 +1,408 @@
+// Importação de um poder a partir de um comando cURL ou de uma coleção do Postman (v2.1).
+// Variáveis {{var}} viram placeholders {var} e atributos do parameters_schema, preenchidos pela IA;
+// o resultado abre no editor de poderes para revisão antes de salvar.
+
+import { PowerDraft, sanitizePowerName } from "@/lib/openapi";
+
+export interface ImportedRequest {
+  // Pastas e nome da requisição na coleção; no cURL, método e URL
+  label: string;
+  power: PowerDraft;
+  // Pontos a revisar no editor (credenciais removidas, corpo convertido etc.)
+  warnings: string[];
+}
+
+// Requisição extraída da fonte, antes de converter as variáveis
+interface RawRequest {
+  name: string;
+  description: string;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+  warnings: string[];
+}
+
+const SUPPORTED_METHODS = new Set(["GET", "POST", "PUT", "PATCH", "DELETE"]);
+const BODY_METHODS = new Set(["POST", "PUT", "PATCH"]);
+// Credenciais não ficam nos cabeçalhos do poder: a chave é cadastrada em Chaves de API e inserida pelo proxy-api
+const SECRET_HEADERS = new Set(["authorization", "proxy-authorization", "x-api-key", "api-key", "cookie"]);
+const DROPPED_HEADERS = new Set(["content-length", "host"]);
+const VARIABLE_PATTERN = /\{\{\s*([^{}\s]+)\s*\}\}/g;
+// Flags do cURL que recebem valor mas não afetam o poder
+const IGNORED_VALUE_FLAGS = new Set([
+  "-o", "--output", "-m", "--max-time", "--connect-timeout", "-x", "--proxy", "-w", "--write-out",
+  "--retry", "-r", "--range", "-c", "--cookie-jar", "--cacert", "--cert", "-E", "--key", "--resolve",
+  "-T", "--upload-file", "-K", "--config", "--limit-rate", "--max-redirs",
+]);
+// Flags curtas que aceitam o valor colado, como em -XPOST
+const SHORT_VALUE_FLAG = /^-[XHdubAeF]./;
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === "object" && !Array.isArray(value);
+
+const findHeader = (headers: Record<string, string>, name: string) =>
+  Object.keys(headers).find((key) => key.toLowerCase() === name.toLowerCase());
+
+// Troca {{var}} por {var} e acumula as variáveis que viram parâmetros. Variáveis com valor conhecido
+// (da coleção) são substituídas pelo valor; as do sistema ficam como placeholder, sem virar parâmetro.
+const createTemplater = (knownValues: Record<string, string>, reservedNames: Set<string>) => {
+  const parameters = new Set<string>();
+  const substituted = new Set<string>();
+  const convert = (text: string) =>
+    text.replace(VARIABLE_PATTERN, (_match, raw: string) => {
+      if (raw in knownValues) {
+        substituted.add(raw);
+        return knownValues[raw];
+      }
+      const name = raw.replace(/[^\w]/g, "_");
+      if (!reservedNames.has(name)) parameters.add(name);
+      return `{${name}}`;
+    });
+  return { convert, parameters, substituted };
+};
+
+const parseBody = (raw: string, convert: (text: string) => string, warnings: string[]): Record<string, unknown> | null => {
+  const text = convert(raw.trim());
+  if (!text) return null;
+  try {
+    const parsed = JSON.parse(text);
+    if (isObject(parsed)) return parsed;
+    warnings.push("O corpo não é um objeto JSON e foi descartado; preencha-o manualmente.");
+    return null;
+  } catch {
+    // Variáveis fora de aspas ("idade": {{idade}}) deixam o JSON inválido até serem colocadas entre aspas
+    try {
+      const parsed = JSON.parse(text.replace(/(^|[^"\w])(\{\w+\})(?!")/g, '$1"$2"'));
+      if (isObject(parsed)) {
+        warnings.push("Variáveis fora de aspas no corpo foram colocadas entre aspas. O valor enviado mantém o tipo do argumento; ajuste o tipo do parâmetro no schema se necessário.");
+        return parsed;
+      }
+    } catch {
+      // Segue para o formato de formulário
+    }
+  }
+  if (/^[^=&\s]+=[^&]*(&[^=&\s]+=[^&]*)*$/.test(text)) {
+    warnings.push("O corpo de formulário foi convertido para JSON; confirme se a API aceita JSON.");
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+  warnings.push("O corpo não é JSON e foi descartado; preencha-o manualmente.");
+  return null;
+};
+
+const toImportedRequest = (
+  label: string,
+  request: RawRequest,
+  knownValues: Record<string, string>,
+  reservedNames: string[],
+): ImportedRequest => {
+  const warnings = [...request.warnings];
+  const { convert, parameters, substituted } = createTemplater(knownValues, new Set(reservedNames));
+
+  const url = convert(request.url);
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(request.headers)) {
+    const lowerKey = key.toLowerCase();
+    if (DROPPED_HEADERS.has(lowerKey)) continue;
+    if (SECRET_HEADERS.has(lowerKey)) {
+      warnings.push(`O cabeçalho "${key}" foi removido: cadastre a credencial em Chaves de API e selecione-a no poder.`);
+      continue;
+    }
+    headers[key] = convert(value);
+  }
+
+  const body = BODY_METHODS.has(request.method) ? parseBody(request.body, convert, warnings) : null;
+  if (!BODY_METHODS.has(request.method) && request.body.trim()) {
+    warnings.push(`O corpo foi descartado porque poderes ${request.method} não enviam corpo.`);
+  }
+  // O proxy-api sempre envia o corpo como JSON
+  const contentType = findHeader(headers, "Content-Type");
+  if (body && (!contentType || !headers[contentType].includes("json"))) {
+    if (contentType) delete headers[contentType];
+    headers["Content-Type"] = "application/json";
+  }
+  if (substituted.size > 0) {
+    warnings.push(`Variáveis da coleção substituídas pelo valor: ${[...substituted].join(", ")}.`);
+  }
+
+  const properties = Object.fromEntries(
+    [...parameters].map((name) => [name, { type: "string", description: `Valor de ${name}` }]),
+  );
+  return {
+    label,
+    warnings,
+    power: {
+      name: request.name,
+      description: request.description,
+      method: request.method,
+      url,
+      headers,
+      body,
+      parameters_schema: { type: "object", properties, required: [...parameters] },
+    },
+  };
+};
+
+// Divide o comando como o shell faria: aspas simples, duplas, $'...' e quebras de linha com "\"
+const tokenizeShell = (command: string) => {
+  const tokens: string[] = [];
+  let current = "";
+  let inToken = false;
+  let quote: "'" | '"' | "$'" | null = null;
+  const ansiEscapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", "'": "'", '"': '"', "\\": "\\" };
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote === "'") {
+      if (char === "'") quote = null;
+      else current += char;
+      continue;
+    }
+    if (quote === "$'") {
+      if (char === "'") quote = null;
+      else if (char === "\\" && i + 1 < command.length) current += ansiEscapes[command[++i]] ?? `\\${command[i]}`;
+      else current += char;
+      continue;
+    }
+    if (quote === '"') {
+      if (char === '"') quote = null;
+      else if (char === "\\" && '"\\$`\n'.includes(command[i + 1] ?? "")) {
+        i++;
+        if (command[i] !== "\n") current += command[i];
+      } else current += char;
+      continue;
+    }
+    if (char === "\\") {
+      i++;
+      if (i < command.length && command[i] !== "\n" && command[i] !== "\r") {
+        current += command[i];
+        inToken = true;
+      }
+      continue;
+    }
+    if (char === "$" && command[i + 1] === "'") {
+      quote = "$'";
+      inToken = true;
+      i++;
+      continue;
+    }
+    if (char === "'" || char === '"') {
+      quote = char;
+      inToken = true;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      if (inToken) tokens.push(current);
+      current = "";
+      inToken = false;
+      continue;
+    }
+    current += char;
+    inToken = true;
+  }
+  if (quote) throw new Error("O comando cURL tem aspas sem fechamento.");
+  if (inToken) tokens.push(current);
+  return tokens;
+};
+
+// Nome sugerido a partir do método e do último trecho fixo do caminho (ex.: post_pedidos)
+const suggestName = (method: string, url: string) => {
+  const path = url.replace(/^[a-z]+:\/\/[^/]+/i, "").split(/[?#]/)[0];
+  const segment = path.split("/").filter((part) => part && !part.includes("{") && !part.startsWith(":")).pop();
+  return sanitizePowerName(`${method.toLowerCase()}_${segment || "requisicao"}`, method.toLowerCase());
+};
+
+// Lança Error com mensagem para o usuário quando o comando não pode ser convertido
+export const parseCurlCommand = (command: string, reservedNames: string[] = []): ImportedRequest => {
+  const tokens = tokenizeShell(command.trim());
+  if (tokens[0] !== "curl") throw new Error('O comando precisa começar com "curl".');
+
+  let method = "";
+  let url = "";
+  let forceGet = false;
+  const headers: Record<string, string> = {};
+  const data: string[] = [];
+  const warnings: string[] = [];
+
+  for (let i = 1; i < tokens.length; i++) {
+    const token = tokens[i];
+    let flag = token;
+    let value: string | undefined;
+    if (token.startsWith("--") && token.includes("=")) {
+      flag = token.slice(0, token.indexOf("="));
+      value = token.slice(token.indexOf("=") + 1);
+    } else if (SHORT_VALUE_FLAG.test(token)) {
+      flag = token.slice(0, 2);
+      value = token.slice(2);
+    }
+    const next = () => value ?? tokens[++i] ?? "";
+
+    switch (flag) {
+      case "-X":
+      case "--request":
+        method = next().toUpperCase();
+        break;
+      case "-H":
+      case "--header": {
+        const header = next();
+        const separator = header.indexOf(":");
+        if (separator > 0) headers[header.slice(0, separator).trim()] = header.slice(separator + 1).trim();
+        break;
+      }
+      case "-d":
+      case "--data":
+      case "--data-raw":
+      case "--data-binary":
+      case "--data-ascii":
+      case "--data-urlencode":
+      case "--json": {
+        const content = next();
+        if (content.startsWith("@") && flag !== "--data-raw") {
+          warnings.push(`O corpo lido do arquivo ${content.slice(1)} não foi importado; preencha-o manualmente.`);
+        } else {
+          data.push(content);
+        }
+        if (flag === "--json" && !findHeader(headers, "Content-Type")) headers["Content-Type"] = "application/json";
+        break;
+      }
+      case "-u":
+      case "--user":
+        next();
+        warnings.push("A autenticação -u foi removida: cadastre a credencial em Chaves de API (tipo Basic) e selecione-a no poder.");
+        break;
+      case "-A":
+      case "--user-agent":
+        headers["User-Agent"] = next();
+        break;
+      case "-b":
+      case "--cookie":
+        headers.Cookie = next();
+        break;
+      case "-e":
+      case "--referer":
+        headers.Referer = next();
+        break;
+      case "-F":
+      case "--form":
+        next();
+        warnings.push("Campos multipart (-F) não são suportados e foram ignorados.");
+        break;
+      case "-G":
+      case "--get":
+        forceGet = true;
+        break;
+      case "--url":
+        url = next();
+        break;
+      default:
+        if (IGNORED_VALUE_FLAGS.has(flag)) next();
+        else if (!token.startsWith("-") && !url) url = token;
+    }
+  }
+
+  if (!url) throw new Error("URL não encontrada no comando cURL.");
+  // Como o próprio cURL, URLs sem esquema usam http
+  if (!/^[a-z]+:\/\//i.test(url)) url = `http://${url}`;
+  let body = data.join("&");
+  if (forceGet && body) {
+    url = `${url}${url.includes("?") ? "&" : "?"}${body}`;
+    body = "";
+  }
+  method = method || (body ? "POST" : "GET");
+  if (!SUPPORTED_METHODS.has(method)) throw new Error(`O método ${method} não é suportado pelos poderes.`);
+
+  return toImportedRequest(
+    `${method} ${url}`,
+    { name: suggestName(method, url), description: "", method, url, headers, body, warnings },
+    {},
+    reservedNames,
+  );
+};
+
+const postmanDescription = (value: unknown) =>
+  String(isObject(value) ? value.content || "" : value || "").trim();
+
+const toPostmanRequest = (item: Record<string, unknown>, inheritedAuth: boolean): RawRequest | null => {
+  const request = typeof item.request === "string" ? { method: "GET", url: item.request } : item.request;
+  if (!isObject(request)) return null;
+  const method = String(request.method || "GET").toUpperCase();
+  if (!SUPPORTED_METHODS.has(method)) return null;
+  const warnings: string[] = [];
+
+  const rawUrl = typeof request.url === "string" ? request.url : isObject(request.url) ? String(request.url.raw || "") : "";
+  // Variáveis de caminho do Postman (/:id) também viram parâmetros
+  const url = rawUrl.replace(/\/:([A-Za-z_]\w*)/g, "/{{$1}}");
+
+  const headers: Record<string, string> = {};
+  for (const header of Array.isArray(request.header) ? request.header : []) {
+    if (isObject(header) && header.key && !header.disabled) headers[String(header.key)] = String(header.value ?? "");
+  }
+
+  let body = "";
+  const requestBody = isObject(request.body) ? request.body : null;
+  if (requestBody?.mode === "raw") {
+    body = String(requestBody.raw || "");
+  } else if (requestBody?.mode === "urlencoded" && Array.isArray(requestBody.urlencoded)) {
+    const fields = requestBody.urlencoded.filter((field) => isObject(field) && field.key && !field.disabled);
+    body = JSON.stringify(Object.fromEntries(fields.map((field) => [String(field.key), String(field.value ?? "")])));
+    warnings.push("O corpo de formulário foi convertido para JSON; confirme se a API aceita JSON.");
+  } else if (requestBody?.mode) {
+    warnings.push(`Corpos do tipo "${requestBody.mode}" não são suportados e foram ignorados.`);
+  }
+
+  const auth = isObject(request.auth) ? request.auth : null;
+  if ((auth && auth.type !== "noauth") || (!auth && inheritedAuth)) {
+    warnings.push("A requisição usa autenticação do Postman: cadastre a credencial em Chaves de API e selecione-a no poder.");
+  }
+
+  return {
+    name: sanitizePowerName(String(item.name || ""), suggestName(method, url)),
+    description: postmanDescription(request.description) || String(item.name || ""),
+    method,
+    url,
+    headers,
+    body,
+    warnings,
+  };
+};
+
+// Lança Error com mensagem para o usuário quando o texto não é uma coleção suportada
+export const parsePostmanCollection = (text: string, reservedNames: string[] = []): ImportedRequest[] => {
+  let collection: unknown;
+  try {
+    collection = JSON.parse(text);
+  } catch {
+    throw new Error("A coleção precisa ser o JSON exportado pelo Postman (Collection v2.1).");
+  }
+  if (!isObject(collection) || !Array.isArray(collection.item)) {
+    throw new Error('Coleção do Postman inválida: o campo "item" é obrigatório.');
+  }
+
+  // Variáveis da coleção com valor (ex.: {{baseUrl}}) são fixas; as demais ficam para a IA preencher
+  const knownValues: Record<string, string> = {};
+  for (const variable of Array.isArray(collection.variable) ? collection.variable : []) {
+    if (isObject(variable) && variable.key && typeof variable.value === "string" && variable.value !== "") {
+      knownValues[String(variable.key)] = variable.value;
+    }
+  }
+
+  const requests: ImportedRequest[] = [];
+  const walk = (items: unknown[], folders: string[], inheritedAuth: boolean) => {
+    for (const item of items) {
+      if (!isObject(item)) continue;
+      if (Array.isArray(item.item)) {
+        // A autenticação da pasta vale para as requisições dentro dela
+        const folderAuth = isObject(item.auth) ? item.auth.type !== "noauth" : inheritedAuth;
+        walk(item.item, [...folders, String(item.name || "")], folderAuth);
+        continue;
+      }
+      const request = toPostmanRequest(item, inheritedAuth);
+      if (request) {
+        requests.push(toImportedRequest([...folders, String(item.name || request.name)].join(" / "), request, knownValues, reservedNames));
+      }
+    }
+  };
+  walk(collection.item, [], isObject(collection.auth) && collection.auth.type !== "noauth");
+
+  if (requests.length === 0) throw new Error("Nenhuma requisição GET, POST, PUT, PATCH ou DELETE encontrada na coleção.");
+  return requests;
+};
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyResponseTransform,
+  normalizeResponseTransform,
+  selectPath,
+  validateResponseTransform,
+} from "@/lib/responseTransform";
+
+const pedidos = {
+  total: 2,
+  "itens-do-dia": 5,
+  pedidos: [
+    { id: 1, cliente: { nome: "Ana", email: "ana@loja.com" }, itens: [{ nome: "café", preco: 10 }, { nome: "pão", preco: 2 }] },
+    { id: 2, cliente: { nome: "Bia" }, itens: [] },
+  ],
+};
+
+describe("selectPath", () => {
+  it("segue chaves, índices e chaves entre colchetes", () => {
+    expect(selectPath(pedidos, "$")).toBe(pedidos);
+    expect(selectPath(pedidos, "$.pedidos[0].cliente.nome")).toBe("Ana");
+    expect(selectPath(pedidos, "pedidos[1]['cliente'].nome")).toBe("Bia");
+    expect(selectPath(pedidos, '$["itens-do-dia"]')).toBe(5);
+  });
+
+  it("projeta curingas e chaves aplicadas a listas", () => {
+    expect(selectPath(pedidos, "$.pedidos[*].id")).toEqual([1, 2]);
+    expect(selectPath(pedidos, "$.pedidos.id")).toEqual([1, 2]);
+    expect(selectPath(pedidos, "$.pedidos[*].itens[*].nome")).toEqual(["café", "pão"]);
+    expect(selectPath(pedidos.pedidos[0], "$.cliente.*")).toEqual(["Ana", "ana@loja.com"]);
+  });
+
+  it("devolve null para caminhos que não existem e lista vazia em projeções", () => {
+    expect(selectPath(pedidos, "$.cupom.codigo")).toBeNull();
+    expect(selectPath(pedidos, "$.pedidos[5]")).toBeNull();
+    expect(selectPath(pedidos, "$.total[0]")).toBeNull();
+    expect(selectPath(pedidos, "$.pedidos[*].cupom")).toEqual([]);
+    expect(selectPath(null, "$.pedidos")).toBeNull();
+  });
+
+  it("recusa caminhos fora do subconjunto suportado", () => {
+    expect(() => selectPath(pedidos, "$..nome")).toThrow('Caminho inválido: "$..nome".');
+    expect(() => selectPath(pedidos, "$.pedidos[-1]")).toThrow("Caminho inválido");
+    expect(() => selectPath(pedidos, "$.pedidos[?(@.id)]")).toThrow("Caminho inválido");
+  });
+});
+
+describe("applyResponseTransform", () => {
+  const result = { status: 200, statusText: "OK", ok: true, data: pedidos, headers: { "content-type": "application/json" } };
+
+  it("devolve o resultado completo sem transformação", () => {
+    expect(applyResponseTransform(result, null)).toBe(result);
+    expect(applyResponseTransform("texto", { path: "$.a" })).toBe("texto");
+  });
+
+  it("seleciona o caminho e os campos de cada item, sem os cabeçalhos", () => {
+    const transformed = applyResponseTransform(result, { path: "$.pedidos", fields: ["id", "cliente.nome", "cupom"] });
+
+    expect(transformed).toEqual({ status: 200, ok: true, data: [{ id: 1, "cliente.nome": "Ana" }, { id: 2, "cliente.nome": "Bia" }] });
+  });
+
+  it("gera uma linha do template por item e deixa vazios os campos ausentes", () => {
+    const transformed = applyResponseTransform(result, {
+      path: "$.pedidos[*]",
+      template: "Pedido {{id}} de {{ cliente.nome }} ({{cliente.email}}): {{itens[*].nome}}",
+    });
+
+    expect(transformed).toEqual({
+      status: 200,
+      ok: true,
+      data: 'Pedido 1 de Ana (ana@loja.com): ["café","pão"]\nPedido 2 de Bia (): []',
+    });
+    expect(applyResponseTransform(result, { path: "$.total", template: "Total: {{.}}" })).toMatchObject({ data: "Total: 2" });
+  });
+
+  it("trunca o resultado em max_length e marca a resposta", () => {
+    expect(applyResponseTransform(result, { path: "$.pedidos[0].cliente", max_length: 10 })).toEqual({
+      status: 200,
+      ok: true,
+      data: '{"nome":"A…',
+      truncated: true,
+    });
+    expect(applyResponseTransform(result, { path: "$.total", max_length: 10 })).toEqual({ status: 200, ok: true, data: 2 });
+  });
+
+  it("só trunca respostas de erro e devolve os dados originais quando o caminho é inválido", () => {
+    const error = { status: 404, ok: false, data: { message: "Pedido não encontrado" } };
+    expect(applyResponseTransform(error, { path: "$.pedidos", max_length: 12 })).toEqual({
+      status: 404,
+      ok: false,
+      data: '{"message":"…',
+      truncated: true,
+    });
+
+    expect(applyResponseTransform(result, { path: "$..id" })).toEqual({
+      status: 200,
+      ok: true,
+      data: pedidos,
+      transform_error: 'Caminho inválido: "$..id".',
+    });
+  });
+});
+
+describe("validateResponseTransform e normalizeResponseTransform", () => {
+  it("aponta caminhos inválidos e limites que não são positivos", () => {
+    expect(validateResponseTransform({ path: "$.pedidos[*]", fields: ["id"], max_length: 100 })).toBeNull();
+    expect(validateResponseTransform({ fields: ["cliente..nome"] })).toBe('Caminho inválido: "cliente..nome".');
+    expect(validateResponseTransform({ max_length: 0 })).toBe("O limite de caracteres precisa ser maior que zero.");
+  });
+
+  it("remove opções vazias e devolve null quando nada foi preenchido", () => {
+    expect(normalizeResponseTransform({ path: "  $.pedidos ", fields: [" id ", ""], template: "  ", max_length: null })).toEqual({
+      path: "$.pedidos",
+      fields: ["id"],
+    });
+    expect(normalizeResponseTransform({ path: "", fields: [], template: "" })).toBeNull();
+  });
+});
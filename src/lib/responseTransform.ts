@@ -0,0 +1,158 @@
+// Transformação da resposta de um poder antes de ela voltar para a IA (coluna powers.response_transform).
+// Reduz o resultado do proxy-api ao que interessa: status e os dados selecionados, sem cabeçalhos.
+
+export interface ResponseTransform {
+  // Caminho no estilo JSONPath dentro dos dados: $.pedidos[0].itens[*].nome
+  path?: string | null;
+  // Campos mantidos em cada objeto selecionado; aceitam caminhos ("cliente.nome")
+  fields?: string[] | null;
+  // Texto com {{campo}} para cada objeto selecionado; listas geram uma linha por item
+  template?: string | null;
+  // Limite de caracteres dos dados enviados à IA
+  max_length?: number | null;
+}
+
+// Resposta do proxy-api (supabase/functions/proxy-api)
+export interface ProxyResult {
+  status?: number;
+  statusText?: string;
+  ok?: boolean;
+  data?: unknown;
+  headers?: Record<string, string>;
+}
+
+type PathSegment = string | number | "*";
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === "object" && !Array.isArray(value);
+
+// Subconjunto de JSONPath: chaves com ponto ou colchetes ('nome'), índices [0] e curingas [*] / .*
+const parsePath = (path: string): PathSegment[] => {
+  const rest = path.trim().replace(/^\$/, "");
+  const segments: PathSegment[] = [];
+  const pattern = /\.?([^.[\]'"]+)|\[(\d+|\*|'[^']*'|"[^"]*")\]/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(rest)) !== null) {
+    if (match.index !== lastIndex) break;
+    lastIndex = pattern.lastIndex;
+    const [, key, bracket] = match;
+    if (key !== undefined) segments.push(key === "*" ? "*" : key);
+    else if (bracket === "*") segments.push("*");
+    else if (/^\d+$/.test(bracket)) segments.push(Number(bracket));
+    else segments.push(bracket.slice(1, -1));
+  }
+  if (lastIndex !== rest.length) throw new Error(`Caminho inválido: "${path}".`);
+  return segments;
+};
+
+// Curingas e chaves aplicadas a listas projetam sobre os itens e devolvem uma lista
+const selectSegments = (value: unknown, segments: PathSegment[]): unknown => {
+  let current: unknown[] = [value];
+  let projected = false;
+  for (const segment of segments) {
+    const next: unknown[] = [];
+    for (const item of current) {
+      if (segment === "*") {
+        projected = true;
+        if (Array.isArray(item)) next.push(...item);
+        else if (isObject(item)) next.push(...Object.values(item));
+      } else if (typeof segment === "number") {
+        if (Array.isArray(item) && segment < item.length) next.push(item[segment]);
+      } else if (Array.isArray(item)) {
+        projected = true;
+        for (const element of item) {
+          if (isObject(element) && segment in element) next.push(element[segment]);
+        }
+      } else if (isObject(item) && segment in item) {
+        next.push(item[segment]);
+      }
+    }
+    current = next;
+  }
+  return projected ? current : current[0] ?? null;
+};
+
+export const selectPath = (value: unknown, path: string) => selectSegments(value, parsePath(path));
+
+const pickFields = (value: unknown, fields: string[]): unknown => {
+  if (Array.isArray(value)) return value.map((item) => pickFields(item, fields));
+  if (!isObject(value)) return value;
+  const picked: Record<string, unknown> = {};
+  for (const field of fields) {
+    const selected = selectPath(value, field);
+    if (selected !== null) picked[field] = selected;
+  }
+  return picked;
+};
+
+const renderTemplate = (template: string, value: unknown): string => {
+  if (Array.isArray(value)) return value.map((item) => renderTemplate(template, item)).join("\n");
+  return template.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_match, path: string) => {
+    const selected = path === "." ? value : selectPath(value, path);
+    if (selected === null || selected === undefined) return "";
+    return typeof selected === "string" ? selected : JSON.stringify(selected);
+  });
+};
+
+// Mensagem de erro para o editor, ou null quando a transformação é válida
+export const validateResponseTransform = (transform: ResponseTransform): string | null => {
+  try {
+    for (const path of [transform.path, ...(transform.fields || [])]) {
+      if (path) parsePath(path);
+    }
+  } catch (e) {
+    return (e as Error).message;
+  }
+  if (transform.max_length !== null && transform.max_length !== undefined && !(transform.max_length > 0)) {
+    return "O limite de caracteres precisa ser maior que zero.";
+  }
+  return null;
+};
+
+// Nulo quando nenhuma opção foi preenchida, para gravar NULL na coluna
+export const normalizeResponseTransform = (transform: ResponseTransform): ResponseTransform | null => {
+  const normalized: ResponseTransform = {};
+  if (transform.path?.trim()) normalized.path = transform.path.trim();
+  const fields = (transform.fields || []).map((field) => field.trim()).filter(Boolean);
+  if (fields.length) normalized.fields = fields;
+  if (transform.template?.trim()) normalized.template = transform.template;
+  if (transform.max_length) normalized.max_length = transform.max_length;
+  return Object.keys(normalized).length ? normalized : null;
+};
+
+// O que a IA recebe: sem transformação, o resultado completo (comportamento anterior); com ela, status e dados
+// reduzidos. Respostas de erro só são truncadas, já que o caminho configurado raramente existe nelas.
+export const applyResponseTransform = (result: unknown, transform: ResponseTransform | null): unknown => {
+  if (!transform || !isObject(result) || !("data" in result)) return result;
+  const { status, ok, data } = result as ProxyResult;
+
+  let transformed: unknown = data;
+  let transformError: string | undefined;
+  if (ok) {
+    try {
+      if (transform.path) transformed = selectPath(transformed, transform.path);
+      if (transform.fields?.length) transformed = pickFields(transformed, transform.fields);
+      if (transform.template) transformed = renderTemplate(transform.template, transformed);
+    } catch (e) {
+      transformed = data;
+      transformError = (e as Error).message;
+    }
+  }
+
+  let truncated = false;
+  if (transform.max_length) {
+    const text = typeof transformed === "string" ? transformed : JSON.stringify(transformed) ?? "";
+    if (text.length > transform.max_length) {
+      transformed = `${text.slice(0, transform.max_length)}…`;
+      truncated = true;
+    }
+  }
+
+  return {
+    status,
+    ok,
+    data: transformed,
+    ...(truncated ? { truncated } : {}),
+    ...(transformError ? { transform_error: transformError } : {}),
+  };
+};
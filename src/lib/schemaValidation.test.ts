@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import { formatValidationIssues, validateArguments } from "@/lib/schemaValidation";
+import { parsePowerArguments, Power } from "@/lib/powers";
+
+const pedidoSchema = {
+  type: "object",
+  properties: {
+    tamanho: { type: "string", enum: ["P", "M", "G"] },
+    quantidade: { type: "integer", minimum: 1, maximum: 10 },
+    cep: { type: "string", pattern: "^\\d{5}-\\d{3}$" },
+    cliente: {
+      type: "object",
+      properties: {
+        nome: { type: "string", minLength: 2 },
+        email: { type: "string", format: "email" },
+      },
+      required: ["nome"],
+      additionalProperties: false,
+    },
+    itens: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: { sku: { type: "string" }, preco: { type: "number", exclusiveMinimum: 0 } },
+        required: ["sku"],
+      },
+    },
+    observacao: { type: "string" },
+  },
+  required: ["tamanho", "quantidade"],
+};
+
+describe("validateArguments", () => {
+  it("aceita argumentos válidos e schemas ausentes", () => {
+    const args = {
+      tamanho: "M",
+      quantidade: 2,
+      cep: "01310-100",
+      cliente: { nome: "Ana", email: "ana@loja.com" },
+      itens: [{ sku: "CAF-1", preco: 9.9 }],
+    };
+
+    expect(validateArguments(pedidoSchema, args)).toEqual([]);
+    expect(validateArguments(undefined, { qualquer: 1 })).toEqual([]);
+  });
+
+  it("aponta campos obrigatórios, enum, limites e pattern", () => {
+    expect(validateArguments(pedidoSchema, { tamanho: "GG", quantidade: 0, cep: "01310100" })).toEqual([
+      { path: "$.tamanho", message: 'Valor fora das opções permitidas: "P", "M", "G".' },
+      { path: "$.quantidade", message: "Deve ser maior ou igual a 1." },
+      { path: "$.cep", message: "Não corresponde ao padrão ^\\d{5}-\\d{3}$." },
+    ]);
+    expect(validateArguments(pedidoSchema, { quantidade: 11 })).toEqual([
+      { path: "$.tamanho", message: "Campo obrigatório ausente." },
+      { path: "$.quantidade", message: "Deve ser menor ou igual a 10." },
+    ]);
+  });
+
+  it("para no tipo errado sem mensagens redundantes", () => {
+    expect(validateArguments(pedidoSchema, { tamanho: "P", quantidade: 1.5 })).toEqual([
+      { path: "$.quantidade", message: "Tipo inválido: esperado integer, recebido number." },
+    ]);
+    expect(validateArguments(pedidoSchema, [])).toEqual([{ path: "$", message: "Tipo inválido: esperado object, recebido array." }]);
+  });
+
+  it("valida objetos aninhados e os itens das listas com o caminho de cada campo", () => {
+    const issues = validateArguments(pedidoSchema, {
+      tamanho: "P",
+      quantidade: 1,
+      cliente: { nome: "A", email: "ana", vip: true },
+      itens: [{ sku: "CAF-1", preco: 0 }, { preco: 5 }, "PAO-2"],
+    });
+
+    expect(issues).toEqual([
+      { path: "$.cliente.nome", message: "Deve ter pelo menos 2 caractere(s)." },
+      { path: "$.cliente.email", message: "Formato inválido: esperado email." },
+      { path: "$.cliente.vip", message: "Campo não previsto no schema." },
+      { path: "$.itens[0].preco", message: "Deve ser maior que 0." },
+      { path: "$.itens[1].sku", message: "Campo obrigatório ausente." },
+      { path: "$.itens[2]", message: "Tipo inválido: esperado object, recebido string." },
+    ]);
+    expect(validateArguments(pedidoSchema, { tamanho: "P", quantidade: 1, itens: [] })).toEqual([
+      { path: "$.itens", message: "Deve ter pelo menos 1 item(ns)." },
+    ]);
+  });
+
+  it("trata null como ausente só nos campos opcionais", () => {
+    expect(validateArguments(pedidoSchema, { tamanho: "P", quantidade: 1, observacao: null, cliente: null })).toEqual([]);
+    expect(validateArguments(pedidoSchema, { tamanho: null, quantidade: 1 })).toEqual([
+      { path: "$.tamanho", message: "Tipo inválido: esperado string, recebido null." },
+    ]);
+  });
+
+  it("combina alternativas com anyOf e oneOf", () => {
+    const schema = { oneOf: [{ type: "string", format: "uuid" }, { type: "integer" }] };
+
+    expect(validateArguments(schema, 42)).toEqual([]);
+    expect(validateArguments(schema, "42")).toEqual([
+      { path: "$", message: "Deve corresponder a exatamente uma das alternativas (oneOf)." },
+    ]);
+  });
+
+  it("formata as mensagens uma por linha", () => {
+    expect(formatValidationIssues([
+      { path: "$.a", message: "Campo obrigatório ausente." },
+      { path: "$.b", message: "Deve ser maior que 0." },
+    ])).toBe("$.a: Campo obrigatório ausente.\n$.b: Deve ser maior que 0.");
+  });
+});
+
+describe("parsePowerArguments", () => {
+  const power: Power = {
+    id: "poder-1",
+    name: "criar_pedido",
+    description: null,
+    method: "POST",
+    url: "https://api.loja.com/pedidos",
+    headers: null,
+    body: { tamanho: "{tamanho}", quantidade: "{quantidade}", observacao: "{observacao}" },
+    api_key_id: null,
+    parameters_schema: pedidoSchema,
+    response_transform: null,
+    requires_confirmation: false,
+  };
+
+  it("remove opcionais enviados como null", () => {
+    expect(parsePowerArguments(power, '{"tamanho":"G","quantidade":3,"observacao":null}')).toEqual({
+      args: { tamanho: "G", quantidade: 3 },
+      error: null,
+    });
+  });
+
+  it("devolve o erro para a IA quando os argumentos não seguem o schema", () => {
+    const { args, error } = parsePowerArguments(power, '{"tamanho":"XG"}');
+
+    expect(args).toBeNull();
+    expect(error).toMatchObject({
+      error: "invalid_arguments",
+      message: expect.stringContaining("criar_pedido"),
+      issues: [
+        { path: "$.quantidade", message: "Campo obrigatório ausente." },
+        { path: "$.tamanho", message: 'Valor fora das opções permitidas: "P", "M", "G".' },
+      ],
+    });
+  });
+
+  it("recusa JSON inválido e aceita argumentos vazios em poderes sem schema", () => {
+    expect(parsePowerArguments(power, '{"tamanho": ').error).toMatchObject({
+      error: "invalid_arguments",
+      issues: [{ path: "$" }],
+    });
+
+    const semSchema = { ...power, parameters_schema: null };
+    expect(parsePowerArguments(semSchema, undefined)).toEqual({ args: {}, error: null });
+    expect(parsePowerArguments(semSchema, "[1]").error?.issues).toEqual([
+      { path: "$", message: "Tipo inválido: esperado object, recebido array." },
+    ]);
+  });
+});
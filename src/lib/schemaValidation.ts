@@ -0,0 +1,155 @@
+// Validação dos argumentos de um poder contra o parameters_schema (subconjunto de JSON Schema usado pelos tools):
+// type, enum, const, required, properties, additionalProperties, items, limites, pattern, format e anyOf/oneOf/allOf.
+// Palavras-chave desconhecidas são ignoradas, como num validador tolerante.
+
+export interface ValidationIssue {
+  // Caminho do valor com problema: "$" é a raiz, "$.itens[0].quantidade" um campo aninhado
+  path: string;
+  message: string;
+}
+
+type Schema = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === "object" && !Array.isArray(value);
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  "date-time": /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i,
+  time: /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z0-9+.-]*:\S+$/i,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+};
+
+const typeOf = (value: unknown) => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string) => {
+  switch (type) {
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "object":
+      return isObject(value);
+    default:
+      return typeOf(value) === type;
+  }
+};
+
+const childPath = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+
+// Comparação estrutural para enum, const e uniqueItems
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((item, index) => sameValue(item, b[index]));
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => key in b && sameValue(a[key], b[key]));
+  }
+  return false;
+};
+
+const validateNode = (schema: unknown, value: unknown, path: string, issues: ValidationIssue[]) => {
+  if (schema === false) {
+    issues.push({ path, message: "Valor não permitido." });
+    return;
+  }
+  if (!isObject(schema)) return;
+  const add = (message: string) => issues.push({ path, message });
+
+  if (schema.type !== undefined) {
+    const types = (Array.isArray(schema.type) ? schema.type : [schema.type]) as string[];
+    if (!types.some((type) => matchesType(value, type))) {
+      add(`Tipo inválido: esperado ${types.join(" ou ")}, recebido ${typeOf(value)}.`);
+      // Com o tipo errado, as demais palavras-chave só gerariam mensagens redundantes
+      return;
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => sameValue(option, value))) {
+    add(`Valor fora das opções permitidas: ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}.`);
+  }
+  if ("const" in schema && !sameValue(schema.const, value)) {
+    add(`O valor deve ser ${JSON.stringify(schema.const)}.`);
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) add(`Deve ter pelo menos ${schema.minLength} caractere(s).`);
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) add(`Deve ter no máximo ${schema.maxLength} caractere(s).`);
+    if (typeof schema.pattern === "string") {
+      try {
+        if (!new RegExp(schema.pattern, "u").test(value)) add(`Não corresponde ao padrão ${schema.pattern}.`);
+      } catch {
+        // Padrão inválido no schema: não há como validar o valor
+      }
+    }
+    if (typeof schema.format === "string" && FORMAT_PATTERNS[schema.format] && !FORMAT_PATTERNS[schema.format].test(value)) {
+      add(`Formato inválido: esperado ${schema.format}.`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) add(`Deve ser maior ou igual a ${schema.minimum}.`);
+    if (typeof schema.maximum === "number" && value > schema.maximum) add(`Deve ser menor ou igual a ${schema.maximum}.`);
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) add(`Deve ser maior que ${schema.exclusiveMinimum}.`);
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) add(`Deve ser menor que ${schema.exclusiveMaximum}.`);
+    if (typeof schema.multipleOf === "number" && schema.multipleOf > 0 && !Number.isInteger(Number((value / schema.multipleOf).toFixed(10)))) {
+      add(`Deve ser múltiplo de ${schema.multipleOf}.`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) add(`Deve ter pelo menos ${schema.minItems} item(ns).`);
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) add(`Deve ter no máximo ${schema.maxItems} item(ns).`);
+    if (schema.uniqueItems === true && value.some((item, index) => value.findIndex((other) => sameValue(other, item)) !== index)) {
+      add("Os itens devem ser únicos.");
+    }
+    if (schema.items !== undefined && !Array.isArray(schema.items)) {
+      value.forEach((item, index) => validateNode(schema.items, item, childPath(path, index), issues));
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = isObject(schema.properties) ? schema.properties : {};
+    const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+    for (const key of required) {
+      if (value[key] === undefined) issues.push({ path: childPath(path, key), message: "Campo obrigatório ausente." });
+    }
+    for (const [key, item] of Object.entries(value)) {
+      // Modelos costumam mandar null nos campos opcionais que não quiseram preencher: vale como ausente
+      if (item === null && !required.includes(key)) continue;
+      if (key in properties) {
+        validateNode(properties[key], item, childPath(path, key), issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: childPath(path, key), message: "Campo não previsto no schema." });
+      } else if (isObject(schema.additionalProperties)) {
+        validateNode(schema.additionalProperties, item, childPath(path, key), issues);
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    schema.allOf.forEach((subschema) => validateNode(subschema, value, path, issues));
+  }
+  const passing = (subschemas: unknown[]) => subschemas.filter((subschema) => validateArguments(subschema, value).length === 0).length;
+  if (Array.isArray(schema.anyOf) && passing(schema.anyOf) === 0) {
+    add("Não corresponde a nenhuma das alternativas permitidas (anyOf).");
+  }
+  if (Array.isArray(schema.oneOf) && passing(schema.oneOf) !== 1) {
+    add("Deve corresponder a exatamente uma das alternativas (oneOf).");
+  }
+};
+
+// Lista vazia quando o valor é válido; schemas ausentes aceitam qualquer valor
+export const validateArguments = (schema: unknown, value: unknown): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  validateNode(schema as Schema | undefined, value, "$", issues);
+  return issues;
+};
+
+export const formatValidationIssues = (issues: ValidationIssue[]) =>
+  issues.map((issue) => `${issue.path}: ${issue.message}`).join("\n");
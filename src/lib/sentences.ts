@@ -0,0 +1,37 @@
+// Quebra o texto que chega em pedaços (streaming) em frases completas para a síntese de voz.
+
+const SENTENCE_BOUNDARY = /[.!?…]+["'”)\]]*\s+|\n+/g;
+// Frases muito curtas ("Olá!") são juntadas à seguinte para evitar várias chamadas de TTS seguidas
+const MIN_SENTENCE_LENGTH = 20;
+
+export interface SentenceSplitter {
+  push: (text: string) => void;
+  flush: () => void;
+}
+
+export const createSentenceSplitter = (onSentence: (sentence: string) => void): SentenceSplitter => {
+  let buffer = "";
+
+  return {
+    push: (text: string) => {
+      buffer += text;
+      let start = 0;
+      let match: RegExpExecArray | null;
+      SENTENCE_BOUNDARY.lastIndex = 0;
+      while ((match = SENTENCE_BOUNDARY.exec(buffer)) !== null) {
+        const end = match.index + match[0].length;
+        const sentence = buffer.slice(start, end).trim();
+        if (sentence.length >= MIN_SENTENCE_LENGTH) {
+          onSentence(sentence);
+          start = end;
+        }
+      }
+      buffer = buffer.slice(start);
+    },
+    flush: () => {
+      const rest = buffer.trim();
+      buffer = "";
+      if (rest) onSentence(rest);
+    },
+  };
+};
@@ -0,0 +1,62 @@
+import { createServer, Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { synthesizeSpeech, SpeechSender } from "@/lib/tts";
+
+// Substituto local do endpoint generateContent do Gemini TTS: devolve PCM em base64 ou um erro no formato da API
+
+let server: Server | null = null;
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+  server = null;
+});
+
+const startStandIn = async (status: number, body: unknown) => {
+  server = createServer((req, res) => {
+    req.resume();
+    req.on("end", () => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    });
+  });
+  await new Promise<void>((resolve) => server?.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const send: SpeechSender = (text) =>
+    fetch(`http://127.0.0.1:${port}/models/gemini-tts:generateContent`, { method: "POST", body: JSON.stringify({ text }) });
+  return send;
+};
+
+describe("Gemini TTS", () => {
+  it("converte o PCM da resposta em WAV com a taxa informada", async () => {
+    const pcm = Buffer.from([1, 0, 2, 0, 3, 0, 4, 0]);
+    const send = await startStandIn(200, {
+      candidates: [{ content: { parts: [{ inlineData: { mimeType: "audio/L16;codec=pcm;rate=16000", data: pcm.toString("base64") } }] } }],
+    });
+
+    const audio = await synthesizeSpeech("gemini-tts", "Olá", send);
+    const bytes = new Uint8Array(await audio.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+
+    expect(audio.type).toBe("audio/wav");
+    expect(new TextDecoder().decode(bytes.slice(0, 4))).toBe("RIFF");
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getUint32(40, true)).toBe(pcm.length);
+    expect(Array.from(bytes.slice(44))).toEqual(Array.from(pcm));
+  });
+
+  it("traduz erros de cota e de chave para mensagens do toast", async () => {
+    const quota = await startStandIn(429, { error: { message: "Resource exhausted" } });
+    await expect(synthesizeSpeech("gemini-tts", "Olá", quota)).rejects.toThrow("Gemini TTS: limite de uso atingido.");
+
+    await new Promise<void>((resolve) => server?.close(() => resolve()));
+    const forbidden = await startStandIn(403, { error: { message: "Permission denied" } });
+    await expect(synthesizeSpeech("gemini-tts", "Olá", forbidden)).rejects.toThrow("chave API inválida");
+  });
+
+  it("avisa quando a resposta não traz áudio", async () => {
+    const send = await startStandIn(200, { candidates: [{ content: { parts: [{ text: "sem áudio" }] } }] });
+
+    await expect(synthesizeSpeech("gemini-tts", "Olá", send)).rejects.toThrow("a resposta não trouxe áudio");
+  });
+});
@@ -0,0 +1,80 @@
+// Síntese de voz pelos provedores externos. A chamada sai do servidor (Edge Function ai-proxy), que
+// escolhe a voz e usa a chave das configurações; aqui a resposta vira áudio pronto para tocar em um <audio>.
+
+export type SpeechModel = "openai-tts" | "gemini-tts";
+
+// Pede o áudio de um trecho e devolve a resposta HTTP crua do provedor
+export type SpeechSender = (text: string) => Promise<Response>;
+
+const readOpenAISpeech = async (response: Response): Promise<Blob> => {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(`OpenAI TTS: ${errorData.error?.message || response.statusText}`);
+  }
+
+  // O ai-proxy entrega o MP3 como application/octet-stream; o tipo certo evita depender da detecção do navegador
+  return new Blob([await response.blob()], { type: "audio/mpeg" });
+};
+
+// Traduz os erros da API Gemini para mensagens que fazem sentido no toast
+export const describeGeminiTtsError = (status: number, message?: string) => {
+  if (status === 401 || status === 403) return "Gemini TTS: chave API inválida ou sem permissão para o modelo de voz.";
+  if (status === 429) return "Gemini TTS: limite de uso atingido. Tente novamente em instantes.";
+  if (status >= 500) return "Gemini TTS: serviço indisponível no momento.";
+  if (status === 400) return `Gemini TTS: requisição inválida${message ? ` (${message})` : ""}.`;
+  return `Gemini TTS: ${message || `erro ${status}`}`;
+};
+
+// O Gemini devolve PCM 16 bits mono sem cabeçalho; o navegador só toca com um cabeçalho WAV na frente
+export const pcmToWav = (pcm: Uint8Array, sampleRate: number): Blob => {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+  };
+  const bytesPerSample = 2;
+
+  writeText(0, "RIFF");
+  header.setUint32(4, 36 + pcm.length, true);
+  writeText(8, "WAVE");
+  writeText(12, "fmt ");
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * bytesPerSample, true);
+  header.setUint16(32, bytesPerSample, true);
+  header.setUint16(34, 16, true);
+  writeText(36, "data");
+  header.setUint32(40, pcm.length, true);
+
+  return new Blob([header.buffer, pcm], { type: "audio/wav" });
+};
+
+const base64ToBytes = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const readGeminiSpeech = async (response: Response): Promise<Blob> => {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(describeGeminiTtsError(response.status, errorData.error?.message));
+  }
+
+  const data = await response.json();
+  const inlineData = data.candidates?.[0]?.content?.parts?.find((part: { inlineData?: unknown }) => part.inlineData)?.inlineData;
+  if (!inlineData?.data) {
+    throw new Error("Gemini TTS: a resposta não trouxe áudio.");
+  }
+
+  // mimeType vem como "audio/L16;codec=pcm;rate=24000"
+  const rate = Number(/rate=(\d+)/.exec(inlineData.mimeType || "")?.[1]) || 24000;
+  return pcmToWav(base64ToBytes(inlineData.data), rate);
+};
+
+export const synthesizeSpeech = async (voiceModel: SpeechModel, text: string, send: SpeechSender): Promise<Blob> => {
+  const response = await send(text);
+  return voiceModel === "gemini-tts" ? readGeminiSpeech(response) : readOpenAISpeech(response);
+};
@@ -0,0 +1,59 @@
+// Linhas devolvidas pelas funções de análise (migração 0024) e estimativa de custo por modelo
+
+export interface DailyUsage {
+  day: string;
+  conversations: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  speech_characters: number;
+}
+
+export interface ModelUsage {
+  kind: "chat" | "speech";
+  provider: string;
+  model: string;
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  characters: number;
+}
+
+export interface PowerUsage {
+  name: string;
+  calls: number;
+  errors: number;
+}
+
+// Preços de referência em USD por 1 milhão de tokens (entrada/saída) ou de caracteres (TTS da OpenAI).
+// Servem só para a estimativa do painel; atualize conforme a tabela vigente dos provedores.
+export interface ModelPrice {
+  input?: number;
+  output?: number;
+  characters?: number;
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash-preview-tts": { input: 0.5, output: 10 },
+  "tts-1": { characters: 15 },
+};
+
+// null quando o modelo não tem preço cadastrado (ex.: servidor próprio)
+export const estimateCost = (usage: ModelUsage): number | null => {
+  const price = MODEL_PRICES[usage.model];
+  if (!price) return null;
+  return (
+    (usage.prompt_tokens * (price.input || 0) +
+      usage.completion_tokens * (price.output || 0) +
+      usage.characters * (price.characters || 0)) /
+    1_000_000
+  );
+};
+
+export const formatUsd = (value: number) =>
+  value.toLocaleString("pt-BR", { style: "currency", currency: "USD", minimumFractionDigits: 2, maximumFractionDigits: 4 });
+
+export const formatNumber = (value: number) => value.toLocaleString("pt-BR");
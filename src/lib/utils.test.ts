@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { renderHeaderTemplate, renderPowerRequest, renderTemplate } from "@/lib/utils";
+import { fixedOrigin } from "../../supabase/functions/_shared/template.ts";
+
+describe("renderTemplate", () => {
+  it("mantém o tipo dos valores e omite campos opcionais sem argumento", () => {
+    const body = { produto: "{produto}", quantidade: "{quantidade}", observacao: "{observacao}", itens: ["{produto}", "{brinde}"] };
+
+    expect(renderTemplate(body, { produto: "café", quantidade: 2 })).toEqual({ produto: "café", quantidade: 2, itens: ["café"] });
+  });
+
+  it("deixa placeholders sem valor no meio de um texto e em objetos aninhados", () => {
+    const body = { cliente: { nome: "{nome}", ip: "{client_ip}" }, mensagem: "Olá {nome}, pedido {pedido}" };
+
+    expect(renderTemplate(body, { nome: "Ana" })).toEqual({ cliente: { nome: "Ana" }, mensagem: "Olá Ana, pedido {pedido}" });
+  });
+});
+
+describe("renderHeaderTemplate", () => {
+  it("remove quebras de linha dos valores substituídos", () => {
+    const headers = renderHeaderTemplate({ "X-Cliente": "{cliente}", Accept: "application/json" }, { cliente: "ana\r\nX-Admin: true" });
+
+    expect(headers).toEqual({ "X-Cliente": "anaX-Admin: true", Accept: "application/json" });
+  });
+});
+
+describe("renderPowerRequest", () => {
+  const template = {
+    method: "POST",
+    url: "https://api.loja.com/clientes/{cliente}/pedidos?ip={client_ip}&cupom={cupom}",
+    headers: { "X-Origem": "{origem}" },
+    body: { produto: "{produto}", quantidade: "{quantidade}" },
+  };
+
+  it("codifica os argumentos na URL e retira parâmetros de query sem valor", () => {
+    const request = renderPowerRequest(template, { cliente: "a/b", produto: "café", quantidade: 2 }, { client_ip: "10.0.0.1", origem: "site" });
+
+    expect(request).toEqual({
+      method: "POST",
+      url: "https://api.loja.com/clientes/a%2Fb/pedidos?ip=10.0.0.1",
+      headers: { "X-Origem": "site" },
+      body: { produto: "café", quantidade: 2 },
+    });
+  });
+
+  it("codifica também as variáveis do sistema na URL", () => {
+    const request = renderPowerRequest(template, { cliente: "ana" }, { client_ip: "../../admin?x=1" });
+
+    expect(request.url).toBe("https://api.loja.com/clientes/ana/pedidos?ip=..%2F..%2Fadmin%3Fx%3D1");
+  });
+});
+
+describe("fixedOrigin", () => {
+  it("só aceita URLs cujo host não depende de placeholders", () => {
+    expect(fixedOrigin("https://api.loja.com/clientes/{cliente}?q={q}")).toBe("https://api.loja.com");
+    expect(fixedOrigin("https://{subdominio}.loja.com/pedidos")).toBeNull();
+    expect(fixedOrigin("{base_url}/pedidos")).toBeNull();
+    expect(fixedOrigin(null)).toBeNull();
+  });
+});
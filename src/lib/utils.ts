@@ -1,25 +1,21 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { renderTemplateString, systemVariableValues } from "../../supabase/functions/_shared/template.ts";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+// A montagem das requisições dos poderes é compartilhada com o proxy-api, que a refaz no servidor
+export {
+  renderHeaderTemplate,
+  renderPowerRequest,
+  renderTemplate,
+  renderTemplateString,
+  systemVariableValues,
+} from "../../supabase/functions/_shared/template.ts";
+
 export function replacePlaceholders(text: string, variables: Record<string, any>): string {
   if (!text) return '';
-  let result = text;
-  for (const key in variables) {
-    if (Object.prototype.hasOwnProperty.call(variables, key)) {
-      const placeholder = `{${key}}`;
-      // Acessa a propriedade 'ip' se a variável for um objeto, como o retorno da edge function
-      const value = typeof variables[key] === 'object' && variables[key] !== null 
-        ? variables[key].ip || JSON.stringify(variables[key]) 
-        : variables[key];
-        
-      if (value !== null && value !== undefined) {
-        result = result.replace(new RegExp(placeholder.replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&'), 'g'), String(value));
-      }
-    }
-  }
-  return result;
-}
\ No newline at end of file
+  return renderTemplateString(text, systemVariableValues(variables));
+}
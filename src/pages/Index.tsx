@@ -11,9 +11,11 @@ interface Settings {
   assistant_prompt: string;
   ai_model: string;
   voice_model: "browser" | "openai-tts" | "gemini-tts";
-  openai_api_key: string | null;
-  openai_tts_voice: string | null;
+  workspace_id: string | null;
+  has_openai_api_key: boolean;
+  has_gemini_api_key: boolean;
   conversation_memory_length: number;
+  max_tool_steps: number;
   activation_phrase: string;
   welcome_message: string | null;
 }
@@ -25,8 +27,9 @@ const Index = () => {
   useEffect(() => {
     const fetchPublicSettings = async () => {
       // Fetch the first available settings record, assuming it's the public one.
+      // The public view omits the API keys; AI calls go through the ai-proxy Edge Function.
       const { data, error } = await supabase
-        .from("settings")
+        .from("public_settings")
         .select("*")
         .limit(1)
         .single();
@@ -42,9 +45,11 @@ const Index = () => {
           assistant_prompt: data.assistant_prompt || "Você é um assistente amigável e profissional que ajuda agências de tecnologia a automatizar processos e criar soluções de IA personalizadas.",
           ai_model: data.ai_model || "gpt-4o-mini",
           voice_model: data.voice_model || "browser",
-          openai_api_key: data.openai_api_key || "",
-          openai_tts_voice: data.openai_tts_voice || "alloy",
+          workspace_id: data.workspace_id,
+          has_openai_api_key: !!data.has_openai_api_key,
+          has_gemini_api_key: !!data.has_gemini_api_key,
           conversation_memory_length: data.conversation_memory_length ?? 5,
+          max_tool_steps: data.max_tool_steps ?? 5,
           activation_phrase: data.activation_phrase || "ativar",
           welcome_message: data.welcome_message || "Bem-vindo ao site! Diga 'ativar' para começar a conversar.",
         });
@@ -55,9 +60,11 @@ const Index = () => {
           assistant_prompt: "Você é um assistente amigável e profissional que ajuda agências de tecnologia a automatizar processos e criar soluções de IA personalizadas.",
           ai_model: "gpt-4o-mini",
           voice_model: "browser",
-          openai_api_key: "",
-          openai_tts_voice: "alloy",
+          workspace_id: null,
+          has_openai_api_key: false,
+          has_gemini_api_key: false,
           conversation_memory_length: 5,
+          max_tool_steps: 5,
           activation_phrase: "ativar",
           welcome_message: "Bem-vindo ao site! Diga 'ativar' para começar a conversar.",
         });
@@ -90,14 +97,16 @@ const Index = () => {
       <div className="flex-grow flex items-center justify-center">
         <VoiceAssistant
           welcomeMessage={settings.welcome_message || "Bem-vindo ao site! Diga 'ativar' para começar a conversar."}
-          openAiApiKey={settings.openai_api_key || ""}
+          workspaceId={settings.workspace_id}
           systemPrompt={settings.system_prompt}
           assistantPrompt={settings.assistant_prompt}
           model={settings.ai_model}
           conversationMemoryLength={settings.conversation_memory_length}
           voiceModel={settings.voice_model}
-          openaiTtsVoice={settings.openai_tts_voice || "alloy"}
+          hasOpenAiApiKey={settings.has_openai_api_key}
+          hasGeminiApiKey={settings.has_gemini_api_key}
           activationPhrase={settings.activation_phrase}
+          maxToolSteps={settings.max_tool_steps}
         />
       </div>
       <Rodape />
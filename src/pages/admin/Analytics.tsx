@@ -0,0 +1,260 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { useSession } from '@/contexts/SessionContext';
+import { supabase } from '@/integrations/supabase/client';
+import { showError } from '@/utils/toast';
+import { DailyUsage, ModelUsage, PowerUsage, estimateCost, formatNumber, formatUsd } from '@/lib/usage';
+
+const PERIODS = [
+  { value: "7", label: "Últimos 7 dias" },
+  { value: "30", label: "Últimos 30 dias" },
+  { value: "90", label: "Últimos 90 dias" },
+];
+
+const TOP_POWERS = 10;
+
+const conversationsChartConfig = {
+  conversations: { label: "Conversas", color: "#6366f1" },
+} satisfies ChartConfig;
+
+const tokensChartConfig = {
+  prompt_tokens: { label: "Tokens de entrada", color: "#6366f1" },
+  completion_tokens: { label: "Tokens de saída", color: "#ec4899" },
+} satisfies ChartConfig;
+
+const costChartConfig = {
+  cost: { label: "Custo estimado (USD)", color: "#22c55e" },
+} satisfies ChartConfig;
+
+const powersChartConfig = {
+  successes: { label: "Sucesso", color: "#6366f1" },
+  errors: { label: "Erro", color: "#ef4444" },
+} satisfies ChartConfig;
+
+// Início do período no fuso do navegador, à meia-noite, para coincidir com o agrupamento por dia
+const periodStart = (days: number) => {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - (days - 1));
+  return start;
+};
+
+const formatDay = (day: string) => new Date(`${day}T00:00:00`).toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit" });
+
+const AnalyticsPage: React.FC = () => {
+  const { workspace, loading: sessionLoading } = useSession();
+  const [period, setPeriod] = useState("30");
+  const [daily, setDaily] = useState<DailyUsage[]>([]);
+  const [models, setModels] = useState<ModelUsage[]>([]);
+  const [powers, setPowers] = useState<PowerUsage[]>([]);
+  const [loadingAnalytics, setLoadingAnalytics] = useState(true);
+
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      if (!workspace?.id) return;
+      setLoadingAnalytics(true);
+      const args = { p_workspace_id: workspace.id, p_from: periodStart(Number(period)).toISOString() };
+      const [dailyResult, modelsResult, powersResult] = await Promise.all([
+        supabase.rpc('analytics_daily', { ...args, p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone }),
+        supabase.rpc('analytics_usage_by_model', args),
+        supabase.rpc('analytics_powers', args),
+      ]);
+      const error = dailyResult.error || modelsResult.error || powersResult.error;
+      if (error) {
+        showError("Erro ao carregar análises de uso.");
+        console.error(error);
+      } else {
+        setDaily((dailyResult.data || []) as DailyUsage[]);
+        setModels((modelsResult.data || []) as ModelUsage[]);
+        setPowers((powersResult.data || []) as PowerUsage[]);
+      }
+      setLoadingAnalytics(false);
+    };
+    if (!sessionLoading && workspace) {
+      fetchAnalytics();
+    }
+  }, [workspace, sessionLoading, period]);
+
+  if (sessionLoading) {
+    return <div className="min-h-screen flex items-center justify-center">Carregando...</div>;
+  }
+
+  const totalConversations = daily.reduce((sum, day) => sum + day.conversations, 0);
+  const totalTokens = daily.reduce((sum, day) => sum + day.prompt_tokens + day.completion_tokens, 0);
+  const totalCharacters = daily.reduce((sum, day) => sum + day.speech_characters, 0);
+  const modelCosts = models.map((usage) => ({ ...usage, cost: estimateCost(usage) }));
+  const totalCost = modelCosts.reduce((sum, usage) => sum + (usage.cost || 0), 0);
+  const totalPowerCalls = powers.reduce((sum, power) => sum + power.calls, 0);
+  const totalPowerErrors = powers.reduce((sum, power) => sum + power.errors, 0);
+
+  const dailyChartData = daily.map((day) => ({ ...day, label: formatDay(day.day) }));
+  const costChartData = modelCosts
+    .filter((usage) => usage.cost !== null)
+    .map((usage) => ({ model: usage.model, cost: Number((usage.cost || 0).toFixed(4)) }));
+  const powersChartData = powers
+    .slice(0, TOP_POWERS)
+    .map((power) => ({ name: power.name, successes: power.calls - power.errors, errors: power.errors }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between">
+        <h1 className="text-3xl font-bold">Análises de Uso</h1>
+        <div className="w-48">
+          <Label htmlFor="analytics-period">Período</Label>
+          <Select onValueChange={setPeriod} value={period}>
+            <SelectTrigger id="analytics-period"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {PERIODS.map((option) => (<SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {loadingAnalytics ? (
+        <p className="text-muted-foreground">Carregando análises...</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <Card><CardContent className="pt-6"><p className="text-sm text-muted-foreground">Conversas</p><p className="text-2xl font-bold">{formatNumber(totalConversations)}</p></CardContent></Card>
+            <Card><CardContent className="pt-6"><p className="text-sm text-muted-foreground">Tokens</p><p className="text-2xl font-bold">{formatNumber(totalTokens)}</p></CardContent></Card>
+            <Card><CardContent className="pt-6"><p className="text-sm text-muted-foreground">Caracteres de voz</p><p className="text-2xl font-bold">{formatNumber(totalCharacters)}</p></CardContent></Card>
+            <Card><CardContent className="pt-6"><p className="text-sm text-muted-foreground">Custo estimado</p><p className="text-2xl font-bold">{formatUsd(totalCost)}</p></CardContent></Card>
+            <Card><CardContent className="pt-6"><p className="text-sm text-muted-foreground">Erros de poderes</p><p className="text-2xl font-bold">{totalPowerCalls ? `${((totalPowerErrors / totalPowerCalls) * 100).toFixed(1)}%` : "—"}</p></CardContent></Card>
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader><CardTitle>Conversas por Dia</CardTitle></CardHeader>
+              <CardContent>
+                <ChartContainer config={conversationsChartConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={dailyChartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="conversations" fill="var(--color-conversations)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader><CardTitle>Tokens por Dia</CardTitle></CardHeader>
+              <CardContent>
+                <ChartContainer config={tokensChartConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={dailyChartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={60} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="prompt_tokens" stackId="tokens" fill="var(--color-prompt_tokens)" />
+                    <Bar dataKey="completion_tokens" stackId="tokens" fill="var(--color-completion_tokens)" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Custo Estimado por Modelo</CardTitle>
+                <CardDescription>Estimativa com preços de referência em USD (src/lib/usage.ts); não substitui a fatura do provedor.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {costChartData.length > 0 && (
+                  <ChartContainer config={costChartConfig} className="h-48 w-full aspect-auto">
+                    <BarChart data={costChartData} layout="vertical">
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" tickLine={false} axisLine={false} />
+                      <YAxis type="category" dataKey="model" tickLine={false} axisLine={false} width={140} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="cost" fill="var(--color-cost)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+                {modelCosts.length === 0 ? (
+                  <p className="text-muted-foreground">Nenhuma chamada de IA registrada no período.</p>
+                ) : (
+                  <div className="space-y-2 text-sm">
+                    {modelCosts.map((usage) => (
+                      <div key={`${usage.kind}-${usage.provider}-${usage.model}`} className="flex items-center justify-between border-b pb-2">
+                        <div>
+                          <span className="font-mono">{usage.model || usage.provider}</span>
+                          <Badge variant="secondary" className="ml-2">{usage.kind === "chat" ? "Chat" : "Voz"}</Badge>
+                          <p className="text-xs text-muted-foreground">
+                            {formatNumber(usage.calls)} chamadas · {usage.kind === "chat"
+                              ? `${formatNumber(usage.prompt_tokens)} + ${formatNumber(usage.completion_tokens)} tokens`
+                              : `${formatNumber(usage.characters)} caracteres`}
+                          </p>
+                        </div>
+                        <span className="font-semibold">{usage.cost === null ? "Sem preço" : formatUsd(usage.cost)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader><CardTitle>Poderes Mais Usados</CardTitle></CardHeader>
+              <CardContent className="space-y-4">
+                {powers.length === 0 ? (
+                  <p className="text-muted-foreground">Nenhum poder executado no período.</p>
+                ) : (
+                  <>
+                    <ChartContainer config={powersChartConfig} className="h-64 w-full aspect-auto">
+                      <BarChart data={powersChartData} layout="vertical">
+                        <CartesianGrid horizontal={false} />
+                        <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                        <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={140} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Bar dataKey="successes" stackId="calls" fill="var(--color-successes)" />
+                        <Bar dataKey="errors" stackId="calls" fill="var(--color-errors)" radius={[0, 4, 4, 0]} />
+                      </BarChart>
+                    </ChartContainer>
+                    <div className="space-y-2 text-sm">
+                      {powers.map((power) => (
+                        <div key={power.name} className="flex items-center justify-between border-b pb-2">
+                          <span className="font-mono">{power.name}</span>
+                          <span>
+                            {formatNumber(power.calls)} chamadas ·{" "}
+                            <span className={power.errors > 0 ? "text-red-600 font-semibold" : "text-muted-foreground"}>
+                              {((power.errors / power.calls) * 100).toFixed(1)}% de erro
+                            </span>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsPage;
@@ -0,0 +1,309 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { PlusCircle, Trash2, Edit } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useSession } from '@/contexts/SessionContext';
+import { supabase } from '@/integrations/supabase/client';
+import { showError, showSuccess } from '@/utils/toast';
+
+type AuthScheme = "bearer" | "header" | "query" | "basic";
+
+// O segredo não é legível pelo navegador (migração 0020); a lista recebe só a dica mascarada
+interface ApiKey {
+  id: string;
+  label: string;
+  provider: string;
+  auth_scheme: AuthScheme;
+  auth_param: string | null;
+  secret_hint: string | null;
+  last_used_at: string | null;
+}
+
+interface PowerReference {
+  id: string;
+  name: string;
+  api_key_id: string;
+}
+
+const AUTH_SCHEMES: { value: AuthScheme; label: string; paramLabel?: string; paramPlaceholder?: string }[] = [
+  { value: "bearer", label: "Bearer (Authorization: Bearer ...)" },
+  { value: "header", label: "Cabeçalho personalizado", paramLabel: "Nome do Cabeçalho", paramPlaceholder: "X-API-Key" },
+  { value: "query", label: "Parâmetro de query", paramLabel: "Nome do Parâmetro", paramPlaceholder: "api_key" },
+  { value: "basic", label: "Basic Auth (usuario:senha)" },
+];
+
+const apiKeySchema = z.object({
+  label: z.string().min(1, "Nome da chave é obrigatório"),
+  provider: z.string().min(1, "Provedor é obrigatório"),
+  auth_scheme: z.enum(["bearer", "header", "query", "basic"]),
+  auth_param: z.string().optional().nullable(),
+  // Em branco ao editar mantém o segredo atual
+  secret: z.string().optional().nullable(),
+});
+
+type ApiKeyFormData = z.infer<typeof apiKeySchema>;
+
+const defaultValues: ApiKeyFormData = {
+  label: "",
+  provider: "",
+  auth_scheme: "bearer",
+  auth_param: "",
+  secret: "",
+};
+
+const ApiKeysPage: React.FC = () => {
+  const { workspace, loading: sessionLoading } = useSession();
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [powerReferences, setPowerReferences] = useState<PowerReference[]>([]);
+  const [loadingApiKeys, setLoadingApiKeys] = useState(true);
+  const [editingKeyId, setEditingKeyId] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<ApiKeyFormData>({
+    resolver: zodResolver(apiKeySchema),
+    defaultValues,
+  });
+
+  const currentScheme = AUTH_SCHEMES.find((scheme) => scheme.value === watch("auth_scheme"));
+
+  const fetchApiKeys = useCallback(async () => {
+    if (!workspace?.id) return;
+    setLoadingApiKeys(true);
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select('id, label, provider, auth_scheme, auth_param, secret_hint, last_used_at')
+      .eq('workspace_id', workspace.id)
+      .order('label', { ascending: true });
+    if (error) {
+      showError("Erro ao carregar chaves de API.");
+      console.error(error);
+    } else {
+      setApiKeys(data || []);
+    }
+    const { data: powersData, error: powersError } = await supabase
+      .from('powers')
+      .select('id, name, api_key_id')
+      .eq('workspace_id', workspace.id)
+      .not('api_key_id', 'is', null);
+    if (powersError) {
+      showError("Erro ao carregar poderes que usam as chaves.");
+      console.error(powersError);
+    } else {
+      setPowerReferences(powersData || []);
+    }
+    setLoadingApiKeys(false);
+  }, [workspace]);
+
+  useEffect(() => {
+    if (!sessionLoading && workspace) {
+      fetchApiKeys();
+    }
+  }, [workspace, sessionLoading, fetchApiKeys]);
+
+  const powersUsing = (keyId: string) => powerReferences.filter((power) => power.api_key_id === keyId);
+
+  const resetForm = () => {
+    reset(defaultValues);
+    setEditingKeyId(null);
+  };
+
+  const onSubmit = async (formData: ApiKeyFormData) => {
+    if (!workspace) {
+      showError("Workspace não encontrado.");
+      return;
+    }
+    if (!editingKeyId && !formData.secret) {
+      showError("Informe o valor da chave.");
+      return;
+    }
+    if (currentScheme?.paramLabel && !formData.auth_param) {
+      showError(`${currentScheme.paramLabel} é obrigatório para este esquema.`);
+      return;
+    }
+
+    const keyData = {
+      workspace_id: workspace.id,
+      label: formData.label,
+      provider: formData.provider,
+      auth_scheme: formData.auth_scheme,
+      auth_param: currentScheme?.paramLabel ? formData.auth_param : null,
+      // Ao editar, o segredo só é enviado quando for trocado (rotação)
+      ...(formData.secret ? { secret: formData.secret } : {}),
+    };
+
+    let error;
+    if (editingKeyId) {
+      const { error: updateError } = await supabase.from('api_keys').update(keyData).eq('id', editingKeyId);
+      error = updateError;
+    } else {
+      const { error: insertError } = await supabase.from('api_keys').insert(keyData);
+      error = insertError;
+    }
+
+    if (error) {
+      showError(`Erro ao ${editingKeyId ? 'atualizar' : 'adicionar'} chave de API.`);
+      console.error(error);
+    } else {
+      showSuccess(`Chave de API ${editingKeyId ? 'atualizada' : 'adicionada'} com sucesso!`);
+      resetForm();
+      fetchApiKeys();
+    }
+  };
+
+  const onEdit = (apiKey: ApiKey) => {
+    setEditingKeyId(apiKey.id);
+    reset({
+      label: apiKey.label,
+      provider: apiKey.provider,
+      auth_scheme: apiKey.auth_scheme,
+      auth_param: apiKey.auth_param || "",
+      secret: "",
+    });
+  };
+
+  const onDelete = async (apiKey: ApiKey) => {
+    const usedBy = powersUsing(apiKey.id);
+    if (usedBy.length > 0) {
+      showError(`Esta chave é usada por: ${usedBy.map((power) => power.name).join(", ")}. Remova a referência antes de excluir.`);
+      return;
+    }
+    if (!confirm("Tem certeza que deseja excluir esta chave de API?")) return;
+    const { error } = await supabase.from('api_keys').delete().eq('id', apiKey.id);
+    if (error) {
+      // 23503: a chave passou a ser referenciada por um poder depois que a lista foi carregada
+      showError(error.code === '23503' ? "Esta chave está em uso por um poder e não pode ser excluída." : "Erro ao excluir chave de API.");
+      console.error(error);
+      fetchApiKeys();
+    } else {
+      showSuccess("Chave de API excluída com sucesso!");
+      setApiKeys(apiKeys.filter(k => k.id !== apiKey.id));
+      if (editingKeyId === apiKey.id) resetForm();
+    }
+  };
+
+  if (sessionLoading || loadingApiKeys) {
+    return <div className="min-h-screen flex items-center justify-center">Carregando...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Chaves de API</h1>
+      <Card>
+        <CardHeader><CardTitle>{editingKeyId ? "Editar Chave" : "Adicionar Nova Chave"}</CardTitle></CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div>
+              <Label htmlFor="api-key-label">Nome</Label>
+              <Input id="api-key-label" placeholder="Ex: OpenWeather produção" {...register("label")} />
+              {errors.label && <p className="text-destructive text-sm mt-1">{errors.label.message}</p>}
+            </div>
+            <div>
+              <Label htmlFor="api-key-provider">Provedor</Label>
+              <Input id="api-key-provider" placeholder="Ex: OpenWeather, Stripe, CRM interno" {...register("provider")} />
+              {errors.provider && <p className="text-destructive text-sm mt-1">{errors.provider.message}</p>}
+            </div>
+            <div>
+              <Label htmlFor="api-key-scheme">Como enviar a chave</Label>
+              <Select onValueChange={(value) => setValue("auth_scheme", value as AuthScheme)} value={watch("auth_scheme")}>
+                <SelectTrigger id="api-key-scheme"><SelectValue /></SelectTrigger>
+                <SelectContent>{AUTH_SCHEMES.map((scheme) => (<SelectItem key={scheme.value} value={scheme.value}>{scheme.label}</SelectItem>))}</SelectContent>
+              </Select>
+            </div>
+            {currentScheme?.paramLabel && (
+              <div>
+                <Label htmlFor="api-key-param">{currentScheme.paramLabel}</Label>
+                <Input id="api-key-param" placeholder={currentScheme.paramPlaceholder} {...register("auth_param")} />
+              </div>
+            )}
+            <div>
+              <Label htmlFor="api-key-secret">{editingKeyId ? "Novo Valor da Chave (Opcional)" : "Valor da Chave"}</Label>
+              <Input
+                id="api-key-secret"
+                type="password"
+                autoComplete="new-password"
+                placeholder={editingKeyId ? "Deixe em branco para manter o valor atual" : watch("auth_scheme") === "basic" ? "usuario:senha" : "sk-..."}
+                {...register("secret")}
+              />
+              <p className="text-sm text-muted-foreground mt-1">O valor fica guardado no servidor e só é usado pelo proxy dos poderes; depois de salvo, não pode ser lido novamente.</p>
+            </div>
+            <div className="flex space-x-2">
+              <Button type="submit" disabled={isSubmitting}><PlusCircle className="mr-2 h-4 w-4" /> {editingKeyId ? "Salvar Alterações" : "Adicionar Chave"}</Button>
+              {editingKeyId && (<Button type="button" variant="outline" onClick={resetForm}>Cancelar Edição</Button>)}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader><CardTitle>Chaves Existentes</CardTitle></CardHeader>
+        <CardContent>
+          {apiKeys.length === 0 ? (<p className="text-muted-foreground">Nenhuma chave adicionada ainda.</p>) : (
+            <div className="space-y-4">
+              {apiKeys.map((apiKey) => {
+                const usedBy = powersUsing(apiKey.id);
+                const scheme = AUTH_SCHEMES.find((item) => item.value === apiKey.auth_scheme);
+                return (
+                  <div key={apiKey.id} className="flex items-center justify-between p-3 border rounded-md">
+                    <div className="space-y-1">
+                      <h3 className="font-semibold">{apiKey.label} <span className="text-xs text-muted-foreground">({apiKey.provider})</span></h3>
+                      <p className="text-sm font-mono">{apiKey.secret_hint || "Sem valor definido"}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {scheme?.label || apiKey.auth_scheme}{apiKey.auth_param ? `: ${apiKey.auth_param}` : ""} · {apiKey.last_used_at ? `Último uso: ${new Date(apiKey.last_used_at).toLocaleString("pt-BR")}` : "Nunca usada"}
+                      </p>
+                      <div className="flex flex-wrap gap-1">
+                        {usedBy.length === 0
+                          ? <span className="text-xs text-muted-foreground">Não usada por nenhum poder</span>
+                          : usedBy.map((power) => (<Badge key={power.id} variant="secondary">{power.name}</Badge>))}
+                      </div>
+                    </div>
+                    <div className="flex space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => onEdit(apiKey)}><Edit className="h-4 w-4" /></Button>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <span tabIndex={0}>
+                            <Button variant="destructive" size="sm" onClick={() => onDelete(apiKey)} disabled={usedBy.length > 0}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </span>
+                        </TooltipTrigger>
+                        {usedBy.length > 0 && (
+                          <TooltipContent>
+                            <p>Em uso por {usedBy.length} poder(es). Remova a referência antes de excluir.</p>
+                          </TooltipContent>
+                        )}
+                      </Tooltip>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ApiKeysPage;
@@ -0,0 +1,120 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft } from 'lucide-react';
+import { useSession } from '@/contexts/SessionContext';
+import { supabase } from '@/integrations/supabase/client';
+import { showError } from '@/utils/toast';
+import ConversationTranscript from '@/components/ConversationTranscript';
+import ConversationExportMenu from '@/components/ConversationExportMenu';
+import {
+  Conversation,
+  StoredMessage,
+  CONVERSATION_STATUS_LABELS,
+  CHANNEL_LABELS,
+  CONVERSATION_COLUMNS,
+  formatDateTime,
+  formatDuration,
+} from '@/lib/conversations';
+
+const ConversationDetailPage: React.FC = () => {
+  const { conversationId } = useParams<{ conversationId: string }>();
+  const { workspace, loading: sessionLoading } = useSession();
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [messages, setMessages] = useState<StoredMessage[]>([]);
+  const [loadingConversation, setLoadingConversation] = useState(true);
+
+  useEffect(() => {
+    const fetchConversation = async () => {
+      if (!workspace?.id || !conversationId) return;
+      setLoadingConversation(true);
+      const { data, error } = await supabase
+        .from('conversations')
+        .select(CONVERSATION_COLUMNS)
+        .eq('workspace_id', workspace.id)
+        .eq('id', conversationId)
+        .maybeSingle();
+      if (error) {
+        showError("Erro ao carregar conversa.");
+        console.error(error);
+      }
+      setConversation(data);
+
+      const { data: messagesData, error: messagesError } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: true });
+      if (messagesError) {
+        showError("Erro ao carregar mensagens da conversa.");
+        console.error(messagesError);
+      } else {
+        setMessages(messagesData || []);
+      }
+      setLoadingConversation(false);
+    };
+    if (!sessionLoading && workspace) {
+      fetchConversation();
+    }
+  }, [workspace, sessionLoading, conversationId]);
+
+  if (sessionLoading || loadingConversation) {
+    return <div className="min-h-screen flex items-center justify-center">Carregando...</div>;
+  }
+
+  const powersUsed = [...new Set(messages.filter((message) => message.role === "tool").map((message) => message.name))];
+  const totalTokens = messages.reduce((sum, message) => sum + (message.prompt_tokens || 0) + (message.completion_tokens || 0), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <Button asChild variant="outline" size="sm">
+          <Link to="/admin/conversations"><ArrowLeft className="mr-2 h-4 w-4" /> Voltar para Conversas</Link>
+        </Button>
+        {conversation && workspace && (
+          <ConversationExportMenu
+            workspaceId={workspace.id}
+            fileName={`conversa-${conversation.id}`}
+            loadConversations={async () => [{ conversation, messages }]}
+          />
+        )}
+      </div>
+      {!conversation ? (
+        <p className="text-muted-foreground">Conversa não encontrada.</p>
+      ) : (
+        <>
+          <h1 className="text-3xl font-bold">
+            Conversa de {formatDateTime(conversation.created_at)}
+            <Badge variant={conversation.status === "active" ? "default" : "secondary"} className="ml-3 align-middle">{CONVERSATION_STATUS_LABELS[conversation.status] || conversation.status}</Badge>
+          </h1>
+          <Card>
+            <CardContent className="pt-6 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div><p className="text-muted-foreground">Canal</p><p className="font-semibold">{CHANNEL_LABELS[conversation.channel] || conversation.channel}</p></div>
+              <div><p className="text-muted-foreground">Duração</p><p className="font-semibold">{formatDuration(conversation.created_at, conversation.ended_at)}</p></div>
+              <div><p className="text-muted-foreground">Mensagens</p><p className="font-semibold">{messages.length}</p></div>
+              <div><p className="text-muted-foreground">Tokens</p><p className="font-semibold">{totalTokens}</p></div>
+              <div className="col-span-2 md:col-span-4">
+                <p className="text-muted-foreground">Poderes usados</p>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {powersUsed.length === 0 ? <span>Nenhum</span> : powersUsed.map((name) => (<Badge key={name} variant="secondary">{name}</Badge>))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader><CardTitle>Transcrição</CardTitle></CardHeader>
+            <CardContent>
+              <ConversationTranscript messages={messages} />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ConversationDetailPage;
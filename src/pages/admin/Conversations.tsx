@@ -1,24 +1,295 @@
 "use client";
 
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChevronLeft, ChevronRight, Eye, Radio } from 'lucide-react';
+import { useSession } from '@/contexts/SessionContext';
+import { supabase } from '@/integrations/supabase/client';
+import { showError } from '@/utils/toast';
+import LiveConversations from '@/components/LiveConversations';
+import ConversationExportMenu from '@/components/ConversationExportMenu';
+import { ConversationWithMessages } from '@/lib/conversationExport';
+import {
+  Conversation,
+  ConversationStatus,
+  StoredMessage,
+  CONVERSATION_STATUS_LABELS,
+  CHANNEL_LABELS,
+  CONVERSATION_COLUMNS,
+  formatDateTime,
+  formatDuration,
+} from '@/lib/conversations';
+
+const PAGE_SIZE = 20;
+const EXPORT_LIMIT = 1000;
+const EXPORT_BATCH_SIZE = 50;
+const MESSAGES_PAGE_SIZE = 1000;
+
+interface ConversationRow extends Conversation {
+  messages: { count: number }[];
+}
+
+interface Filters {
+  from: string;
+  to: string;
+  channel: string;
+  status: "all" | ConversationStatus;
+  power: string;
+}
+
+const emptyFilters: Filters = { from: "", to: "", channel: "all", status: "all", power: "all" };
 
 const ConversationsPage: React.FC = () => {
+  const { workspace, loading: sessionLoading } = useSession();
+  const [conversations, setConversations] = useState<ConversationRow[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(0);
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [powerNames, setPowerNames] = useState<string[]>([]);
+  const [loadingConversations, setLoadingConversations] = useState(true);
+
+  useEffect(() => {
+    const fetchPowerNames = async () => {
+      if (!workspace?.id) return;
+      const { data, error } = await supabase.from('powers').select('name').eq('workspace_id', workspace.id).order('name');
+      if (error) {
+        console.error("Erro ao carregar poderes para o filtro:", error);
+      } else {
+        setPowerNames((data || []).map((power) => power.name));
+      }
+    };
+    if (!sessionLoading && workspace) {
+      fetchPowerNames();
+    }
+  }, [workspace, sessionLoading]);
+
+  // "Poder usado" vem das mensagens de resultado (role = tool), gravadas com o nome do poder; null sem esse filtro
+  const fetchPowerFilterIds = useCallback(async (workspaceId: string) => {
+    if (filters.power === "all") return null;
+    const { data, error } = await supabase
+      .from('messages')
+      .select('conversation_id')
+      .eq('workspace_id', workspaceId)
+      .eq('role', 'tool')
+      .eq('name', filters.power);
+    if (error) throw error;
+    return [...new Set((data || []).map((message) => message.conversation_id as string))];
+  }, [filters.power]);
+
+  // Consulta de conversas com os filtros da tela, usada pela listagem e pela exportação
+  const buildFilteredQuery = useCallback((workspaceId: string, columns: string, conversationIds: string[] | null) => {
+    let query = supabase
+      .from('conversations')
+      .select(columns, { count: 'exact' })
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false });
+
+    if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+    if (filters.to) query = query.lte('created_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+    if (filters.channel !== "all") query = query.eq('channel', filters.channel);
+    if (filters.status !== "all") query = query.eq('status', filters.status);
+    if (conversationIds) query = query.in('id', conversationIds);
+    return query;
+  }, [filters]);
+
+  useEffect(() => {
+    const fetchConversations = async () => {
+      if (!workspace?.id) return;
+      setLoadingConversations(true);
+
+      let conversationIds: string[] | null;
+      try {
+        conversationIds = await fetchPowerFilterIds(workspace.id);
+      } catch (error) {
+        showError("Erro ao filtrar conversas por poder.");
+        console.error(error);
+        setLoadingConversations(false);
+        return;
+      }
+
+      const { data, error, count } = await buildFilteredQuery(workspace.id, `${CONVERSATION_COLUMNS}, messages(count)`, conversationIds).range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+      if (error) {
+        showError("Erro ao carregar conversas.");
+        console.error(error);
+      } else {
+        setConversations((data || []) as unknown as ConversationRow[]);
+        setTotalCount(count || 0);
+      }
+      setLoadingConversations(false);
+    };
+    if (!sessionLoading && workspace) {
+      fetchConversations();
+    }
+  }, [workspace, sessionLoading, page, fetchPowerFilterIds, buildFilteredQuery]);
+
+  // Exporta todas as conversas do filtro atual (não só a página exibida), até EXPORT_LIMIT
+  const loadConversationsForExport = async (): Promise<ConversationWithMessages[] | null> => {
+    if (!workspace?.id) return null;
+    const conversationIds = await fetchPowerFilterIds(workspace.id);
+    const { data, error, count } = await buildFilteredQuery(workspace.id, CONVERSATION_COLUMNS, conversationIds).range(0, EXPORT_LIMIT - 1);
+    if (error) throw error;
+    if ((count || 0) > EXPORT_LIMIT) {
+      showError(`O filtro tem ${count} conversas; apenas as ${EXPORT_LIMIT} mais recentes serão exportadas.`);
+    }
+    const selected = (data || []) as unknown as Conversation[];
+
+    // Em lotes, para não estourar o tamanho da URL nem o limite de linhas por consulta
+    const messagesByConversation: Record<string, StoredMessage[]> = {};
+    for (let start = 0; start < selected.length; start += EXPORT_BATCH_SIZE) {
+      const ids = selected.slice(start, start + EXPORT_BATCH_SIZE).map((conversation) => conversation.id);
+      for (let offset = 0; ; offset += MESSAGES_PAGE_SIZE) {
+        const { data: messagesData, error: messagesError } = await supabase
+          .from('messages')
+          .select('*')
+          .in('conversation_id', ids)
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(offset, offset + MESSAGES_PAGE_SIZE - 1);
+        if (messagesError) throw messagesError;
+        for (const message of (messagesData || []) as StoredMessage[]) {
+          (messagesByConversation[message.conversation_id] ||= []).push(message);
+        }
+        if (!messagesData || messagesData.length < MESSAGES_PAGE_SIZE) break;
+      }
+    }
+    return selected.map((conversation) => ({ conversation, messages: messagesByConversation[conversation.id] || [] }));
+  };
+
+  // Qualquer mudança de filtro volta para a primeira página
+  const updateFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+    setPage(0);
+  };
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  if (sessionLoading) {
+    return <div className="min-h-screen flex items-center justify-center">Carregando...</div>;
+  }
+
   return (
     <div className="space-y-6">
       <h1 className="text-3xl font-bold">Conversas</h1>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Histórico de Conversas</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <p className="text-muted-foreground">O histórico de conversas aparecerá aqui. Futuramente, você poderá interagir via chat.</p>
-          {/* Placeholder for conversation list */}
-        </CardContent>
-      </Card>
+      <Tabs defaultValue="history" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="history">Histórico</TabsTrigger>
+          <TabsTrigger value="live"><Radio className="mr-2 h-4 w-4" /> Ao Vivo</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="live">
+          {workspace && <LiveConversations workspaceId={workspace.id} />}
+        </TabsContent>
+
+        <TabsContent value="history" className="space-y-6">
+          <Card>
+            <CardHeader><CardTitle>Filtros</CardTitle></CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-5 gap-4">
+              <div>
+                <Label htmlFor="filter-from">De</Label>
+                <Input id="filter-from" type="date" value={filters.from} onChange={(e) => updateFilter("from", e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="filter-to">Até</Label>
+                <Input id="filter-to" type="date" value={filters.to} onChange={(e) => updateFilter("to", e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="filter-channel">Canal</Label>
+                <Select onValueChange={(value) => updateFilter("channel", value)} value={filters.channel}>
+                  <SelectTrigger id="filter-channel"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos</SelectItem>
+                    {Object.entries(CHANNEL_LABELS).map(([value, label]) => (<SelectItem key={value} value={value}>{label}</SelectItem>))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="filter-status">Status</Label>
+                <Select onValueChange={(value) => updateFilter("status", value as Filters["status"])} value={filters.status}>
+                  <SelectTrigger id="filter-status"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos</SelectItem>
+                    {Object.entries(CONVERSATION_STATUS_LABELS).map(([value, label]) => (<SelectItem key={value} value={value}>{label}</SelectItem>))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="filter-power">Poder usado</Label>
+                <Select onValueChange={(value) => updateFilter("power", value)} value={filters.power}>
+                  <SelectTrigger id="filter-power"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Qualquer</SelectItem>
+                    {powerNames.map((name) => (<SelectItem key={name} value={name}>{name}</SelectItem>))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="md:col-span-5">
+                <Button type="button" variant="outline" size="sm" onClick={() => { setFilters(emptyFilters); setPage(0); }}>Limpar Filtros</Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Histórico de Conversas ({totalCount})</CardTitle>
+              {workspace && (
+                <ConversationExportMenu
+                  workspaceId={workspace.id}
+                  fileName={`conversas-${new Date().toISOString().slice(0, 10)}`}
+                  loadConversations={loadConversationsForExport}
+                  disabled={loadingConversations || totalCount === 0}
+                />
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {loadingConversations ? (<p className="text-muted-foreground">Carregando conversas...</p>) : conversations.length === 0 ? (
+                <p className="text-muted-foreground">Nenhuma conversa encontrada.</p>
+              ) : (
+                <div className="space-y-2">
+                  {conversations.map((conversation) => (
+                    <div key={conversation.id} className="flex items-center justify-between p-3 border rounded-md">
+                      <div className="space-y-1">
+                        <p className="font-semibold">
+                          {formatDateTime(conversation.created_at)}
+                          <Badge variant={conversation.status === "active" ? "default" : "secondary"} className="ml-2">{CONVERSATION_STATUS_LABELS[conversation.status] || conversation.status}</Badge>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {CHANNEL_LABELS[conversation.channel] || conversation.channel} · {conversation.messages?.[0]?.count ?? 0} mensagens · {formatDuration(conversation.created_at, conversation.ended_at)}
+                        </p>
+                      </div>
+                      <Button asChild variant="outline" size="sm">
+                        <Link to={`/admin/conversations/${conversation.id}`}><Eye className="mr-2 h-4 w-4" /> Ver Transcrição</Link>
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">Página {page + 1} de {totalPages}</p>
+                <div className="flex space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || loadingConversations}><ChevronLeft className="h-4 w-4" /> Anterior</Button>
+                  <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= totalPages || loadingConversations}>Próxima <ChevronRight className="h-4 w-4" /></Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
     </div>
   );
 };
 
-export default ConversationsPage;
\ No newline at end of file
+export default ConversationsPage;
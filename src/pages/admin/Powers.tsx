@@ -1,7 +1,7 @@
 "use client";
 
-import React, { useEffect, useState } from 'react';
-import { useForm, useFieldArray, Controller } from 'react-hook-form';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
@@ -9,7 +9,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { PlusCircle, Trash2, Edit, Play } from 'lucide-react';
+import { PlusCircle, Trash2, Edit, Play, History, Sparkles } from 'lucide-react';
 import {
   Select,
   SelectContent,
@@ -17,13 +17,24 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Checkbox } from "@/components/ui/checkbox";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
 import { useSession } from '@/contexts/SessionContext';
 import { useSystem } from '@/contexts/SystemContext'; // Importar o hook do sistema
 import { supabase } from '@/integrations/supabase/client';
 import { showError, showSuccess } from '@/utils/toast';
-import { replacePlaceholders } from '@/lib/utils'; // Importar a função utilitária
+import PowerExecutions from '@/components/PowerExecutions';
+import OpenApiImportDialog from '@/components/OpenApiImportDialog';
+import RequestImportDialog from '@/components/RequestImportDialog';
+import ParametersSchemaEditor from '@/components/ParametersSchemaEditor';
+import PowerArgumentsForm from '@/components/PowerArgumentsForm';
+import { PowerDraft } from '@/lib/openapi';
+import { buildPowerRequest, extractPowerArguments, parsePowerArguments, Power as ExecutablePower, ProxyRequest } from '@/lib/powers';
+import { createLlmTransport } from '@/lib/llm';
+import { createAiProxy, AiProxyInvoker } from '@/lib/aiProxy';
+import { formatValidationIssues } from '@/lib/schemaValidation';
+import { applyResponseTransform, normalizeResponseTransform, ResponseTransform, validateResponseTransform } from '@/lib/responseTransform';
 
 // Tipos para o Supabase
 interface Power {
@@ -36,6 +47,8 @@ interface Power {
   body: Record<string, any> | null;
   api_key_id: string | null;
   parameters_schema: Record<string, any> | null;
+  response_transform: ResponseTransform | null;
+  requires_confirmation: boolean;
 }
 
 interface ApiKey {
@@ -55,17 +68,35 @@ const powerSchema = z.object({
   body: z.string().optional().nullable(), // JSON string
   api_key_id: z.string().optional().nullable(),
   parameters_schema: z.string().optional().nullable(), // JSON string
-  // Campo para o editor de formulário, não vai para o DB diretamente
-  formParameters: z.array(z.object({
-    name: z.string().min(1, "Nome do atributo é obrigatório"),
-    type: z.enum(['string', 'number', 'boolean']),
-    description: z.string().min(1, "Descrição é obrigatória"),
-    required: z.boolean(),
-  })).optional(),
+  requires_confirmation: z.boolean(),
+  // Campos da transformação da resposta, gravados juntos na coluna response_transform
+  transform_path: z.string().optional().nullable(),
+  transform_fields: z.string().optional().nullable(), // Separados por vírgula
+  transform_template: z.string().optional().nullable(),
+  transform_max_length: z.string().regex(/^\d*$/, "Informe um número inteiro").optional().nullable(),
 });
 
 type PowerFormData = z.infer<typeof powerSchema>;
 
+const EMPTY_TRANSFORM_FIELDS = { transform_path: "", transform_fields: "", transform_template: "", transform_max_length: "" };
+
+const transformFromForm = (values: Partial<PowerFormData>) =>
+  normalizeResponseTransform({
+    path: values.transform_path,
+    fields: (values.transform_fields || '').split(','),
+    template: values.transform_template,
+    max_length: Number(values.transform_max_length) || null,
+  });
+
+const transformToForm = (transform: ResponseTransform | null) => ({
+  transform_path: transform?.path || "",
+  transform_fields: (transform?.fields || []).join(', '),
+  transform_template: transform?.template || "",
+  transform_max_length: transform?.max_length ? String(transform.max_length) : "",
+});
+
+const invokeAiProxy: AiProxyInvoker = (payload) => supabase.functions.invoke('ai-proxy', { body: payload });
+
 const PowersPage: React.FC = () => {
   const { workspace, loading: sessionLoading } = useSession();
   const { systemVariables } = useSystem(); // Obter as variáveis do sistema
@@ -75,7 +106,16 @@ const PowersPage: React.FC = () => {
   const [editingPowerId, setEditingPowerId] = useState<string | null>(null);
   const [testResult, setTestResult] = useState<any | null>(null);
   const [testingPower, setTestingPower] = useState(false);
+  // Argumentos que a IA enviaria ao chamar o poder, validados com o mesmo schema usado nas conversas
+  const [testArguments, setTestArguments] = useState<Record<string, unknown>>({});
+  const [testSentence, setTestSentence] = useState("");
+  const [fillingArguments, setFillingArguments] = useState(false);
+  // Requisição já resolvida (variáveis e argumentos substituídos), mostrada ao lado da resposta
+  const [testRequest, setTestRequest] = useState<ProxyRequest | null>(null);
+  const [aiModel, setAiModel] = useState("gpt-4o-mini");
   const [editorMode, setEditorMode] = useState<'form' | 'json'>('form');
+  const [pageTab, setPageTab] = useState<'powers' | 'executions'>('powers');
+  const [executionsPowerId, setExecutionsPowerId] = useState("all");
 
   const {
     register,
@@ -84,7 +124,6 @@ const PowersPage: React.FC = () => {
     setValue,
     watch,
     getValues,
-    control,
     formState: { errors, isSubmitting },
   } = useForm<PowerFormData>({
     resolver: zodResolver(powerSchema),
@@ -97,41 +136,30 @@ const PowersPage: React.FC = () => {
       body: "{}",
       api_key_id: null,
       parameters_schema: '{\n  "type": "object",\n  "properties": {},\n  "required": []\n}',
-      formParameters: [],
+      requires_confirmation: false,
+      ...EMPTY_TRANSFORM_FIELDS,
     },
   });
 
-  const { fields, append, remove } = useFieldArray({
-    control,
-    name: "formParameters",
-  });
-
   const currentMethod = watch("method");
-  const formParameters = watch("formParameters");
+  const parametersSchemaText = watch("parameters_schema");
+  const [transformPath, transformFields, transformTemplate, transformMaxLength] = watch(["transform_path", "transform_fields", "transform_template", "transform_max_length"]);
+  const previewTransform = transformFromForm({
+    transform_path: transformPath,
+    transform_fields: transformFields,
+    transform_template: transformTemplate,
+    transform_max_length: transformMaxLength,
+  });
 
-  // Sincroniza o editor de formulário com o campo de texto JSON
-  useEffect(() => {
-    if (editorMode === 'form') {
-      try {
-        const schema = {
-          type: "object",
-          properties: formParameters.reduce((acc, param) => {
-            if (param.name) {
-              acc[param.name] = {
-                type: param.type,
-                description: param.description,
-              };
-            }
-            return acc;
-          }, {} as Record<string, any>),
-          required: formParameters.filter(p => p.required && p.name).map(p => p.name),
-        };
-        setValue("parameters_schema", JSON.stringify(schema, null, 2));
-      } catch (e) {
-        console.error("Erro ao gerar JSON Schema a partir do formulário:", e);
-      }
+  // O editor de formulário trabalha sobre o mesmo JSON da aba JSON, então nada se perde ao alternar
+  const parsedParametersSchema = useMemo(() => {
+    try {
+      const parsed = JSON.parse(parametersSchemaText || '{}');
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : null;
+    } catch {
+      return null;
     }
-  }, [formParameters, editorMode, setValue]);
+  }, [parametersSchemaText]);
 
   // Carregar poderes e chaves de API
   useEffect(() => {
@@ -152,6 +180,9 @@ const PowersPage: React.FC = () => {
       } else {
         setApiKeys(apiKeysData || []);
       }
+      // Modelo usado no preenchimento dos argumentos de teste a partir de uma frase
+      const { data: settingsData } = await supabase.from('settings').select('ai_model').eq('workspace_id', workspace.id).maybeSingle();
+      if (settingsData?.ai_model) setAiModel(settingsData.ai_model);
       setLoadingPowers(false);
     };
     if (!sessionLoading && workspace) {
@@ -159,25 +190,9 @@ const PowersPage: React.FC = () => {
     }
   }, [workspace, sessionLoading]);
 
-  const parseSchemaToFields = (schema: Record<string, any> | null) => {
-    if (!schema || !schema.properties) return [];
-    const requiredFields = new Set(schema.required || []);
-    return Object.entries(schema.properties).map(([name, props]) => ({
-      name,
-      type: props.type || 'string',
-      description: props.description || '',
-      required: requiredFields.has(name),
-    }));
-  };
-
   const handleTabChange = (newMode: 'form' | 'json') => {
     if (newMode === 'form') {
-      try {
-        const schemaStr = getValues("parameters_schema") || '{}';
-        const schema = JSON.parse(schemaStr);
-        const fields = parseSchemaToFields(schema);
-        setValue("formParameters", fields);
-      } catch (e) {
+      if (!parsedParametersSchema) {
         showError("O JSON Schema atual é inválido. Corrija-o antes de mudar para o modo formulário.");
         return; // Impede a mudança de aba
       }
@@ -190,6 +205,12 @@ const PowersPage: React.FC = () => {
       showError("Workspace não encontrado.");
       return;
     }
+    const responseTransform = transformFromForm(formData);
+    const transformError = responseTransform && validateResponseTransform(responseTransform);
+    if (transformError) {
+      showError(`Transformação da resposta inválida: ${transformError}`);
+      return;
+    }
     try {
       const parsedHeaders = formData.headers ? JSON.parse(formData.headers) : {};
       const parsedBody = (formData.body && (currentMethod === "POST" || currentMethod === "PUT" || currentMethod === "PATCH")) ? JSON.parse(formData.body) : {};
@@ -204,6 +225,8 @@ const PowersPage: React.FC = () => {
         body: parsedBody,
         api_key_id: formData.api_key_id || null,
         parameters_schema: parsedParametersSchema,
+        response_transform: responseTransform,
+        requires_confirmation: formData.requires_confirmation,
       };
       let error;
       if (editingPowerId) {
@@ -220,7 +243,7 @@ const PowersPage: React.FC = () => {
         showSuccess(`Poder ${editingPowerId ? 'atualizado' : 'adicionado'} com sucesso!`);
         reset();
         setEditingPowerId(null);
-        setTestResult(null);
+        resetTest();
         const { data: updatedPowers, error: fetchError } = await supabase.from('powers').select('*').eq('workspace_id', workspace.id);
         if (!fetchError) setPowers(updatedPowers || []);
       }
@@ -230,6 +253,51 @@ const PowersPage: React.FC = () => {
     }
   };
 
+  const resetTest = () => {
+    setTestResult(null);
+    setTestRequest(null);
+    setTestArguments({});
+    setTestSentence("");
+  };
+
+  // O poder como está no formulário, ainda não salvo, no formato usado pelo executor das conversas
+  const powerFromForm = (): ExecutablePower => {
+    const formData = getValues();
+    return {
+      id: editingPowerId || '',
+      name: formData.name || 'poder',
+      description: formData.description || null,
+      method: formData.method,
+      url: formData.url || null,
+      headers: JSON.parse(formData.headers || '{}'),
+      body: (currentMethod === "POST" || currentMethod === "PUT" || currentMethod === "PATCH") ? JSON.parse(formData.body || '{}') : null,
+      api_key_id: formData.api_key_id || null,
+      parameters_schema: parsedParametersSchema,
+      response_transform: null,
+      requires_confirmation: formData.requires_confirmation,
+    };
+  };
+
+  const handleFillArguments = async () => {
+    if (!workspace) return;
+    setFillingArguments(true);
+    try {
+      const transport = createLlmTransport(aiModel, createAiProxy(workspace.id, invokeAiProxy).send);
+      setTestArguments(await extractPowerArguments(transport, powerFromForm(), testSentence));
+      showSuccess("Argumentos preenchidos pela IA. Confira antes de testar.");
+    } catch (e) {
+      showError(`Erro ao preencher argumentos: ${(e as Error).message}`);
+    } finally {
+      setFillingArguments(false);
+    }
+  };
+
+  const handlePowersImported = async () => {
+    if (!workspace) return;
+    const { data: updatedPowers, error: fetchError } = await supabase.from('powers').select('*').eq('workspace_id', workspace.id);
+    if (!fetchError) setPowers(updatedPowers || []);
+  };
+
   const onEdit = (power: Power) => {
     setEditingPowerId(power.id);
     const formValues = {
@@ -237,11 +305,34 @@ const PowersPage: React.FC = () => {
       headers: JSON.stringify(power.headers || {}, null, 2),
       body: JSON.stringify(power.body || {}, null, 2),
       parameters_schema: JSON.stringify(power.parameters_schema || {}, null, 2),
-      formParameters: parseSchemaToFields(power.parameters_schema),
+      ...transformToForm(power.response_transform),
     };
     reset(formValues);
-    setTestResult(null);
+    resetTest();
+    setEditorMode('form');
+  };
+
+  // Abre a requisição importada de cURL/Postman no editor como um novo poder, ainda não salvo
+  const onImportRequest = (draft: PowerDraft, warnings: string[]) => {
+    setEditingPowerId(null);
+    reset({
+      name: draft.name,
+      description: draft.description,
+      method: draft.method as PowerFormData['method'],
+      url: draft.url,
+      headers: JSON.stringify(draft.headers, null, 2),
+      body: JSON.stringify(draft.body || {}, null, 2),
+      api_key_id: null,
+      parameters_schema: JSON.stringify(draft.parameters_schema, null, 2),
+      requires_confirmation: false,
+      ...EMPTY_TRANSFORM_FIELDS,
+    });
+    resetTest();
     setEditorMode('form');
+    showSuccess(warnings.length > 0
+      ? `Requisição importada com ${warnings.length} aviso(s). Revise os campos antes de salvar.`
+      : "Requisição importada. Revise os campos e salve o poder.");
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   const onDelete = async (id: string) => {
@@ -256,7 +347,7 @@ const PowersPage: React.FC = () => {
       if (editingPowerId === id) {
         reset();
         setEditingPowerId(null);
-        setTestResult(null);
+        resetTest();
       }
     }
   };
@@ -264,6 +355,7 @@ const PowersPage: React.FC = () => {
   const handleTestPower = async () => {
     setTestingPower(true);
     setTestResult(null);
+    setTestRequest(null);
     const formData = getValues();
     if (!formData.url) {
       showError("URL do Endpoint é obrigatória para testar.");
@@ -271,16 +363,19 @@ const PowersPage: React.FC = () => {
       return;
     }
     try {
-      // Substituir placeholders antes de enviar
-      const processedUrl = replacePlaceholders(formData.url || '', systemVariables);
-      const processedHeadersStr = replacePlaceholders(formData.headers || '{}', systemVariables);
-      const processedBodyStr = replacePlaceholders(formData.body || '{}', systemVariables);
+      const power = powerFromForm();
+      const { args, error: argumentsError } = parsePowerArguments(power, JSON.stringify(testArguments));
+      if (argumentsError) {
+        showError("Argumentos de teste inválidos.");
+        setTestResult({ error: argumentsError.message, details: formatValidationIssues(argumentsError.issues) });
+        return;
+      }
+
+      // Mesma montagem usada nas conversas; sem power_id, a chave selecionada no formulário é injetada pelo proxy-api
+      const { power_id, ...request } = buildPowerRequest(power, args, systemVariables);
+      const payload = { ...request, api_key_id: formData.api_key_id || null };
+      setTestRequest(payload);
 
-      const parsedHeaders = JSON.parse(processedHeadersStr);
-      const parsedBody = (currentMethod === "POST" || currentMethod === "PUT" || currentMethod === "PATCH") ? JSON.parse(processedBodyStr) : undefined;
-      
-      const payload = { url: processedUrl, method: formData.method, headers: parsedHeaders, body: parsedBody };
-      
       const { data, error: invokeError } = await supabase.functions.invoke('proxy-api', { body: payload });
       if (invokeError) {
         let detailedError = invokeError.message;
@@ -317,125 +412,199 @@ const PowersPage: React.FC = () => {
   return (
     <div className="space-y-6">
       <h1 className="text-3xl font-bold">Poderes da IA (APIs/Webhooks)</h1>
-      <Card>
-        <CardHeader><CardTitle>{editingPowerId ? "Editar Poder" : "Adicionar Novo Poder"}</CardTitle></CardHeader>
-        <CardContent className="space-y-4">
-          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-            <div>
-              <Label htmlFor="power-name">Nome do Poder</Label>
-              <Input id="power-name" placeholder="Ex: data_hora, clima_cidade" {...register("name")} />
-              {errors.name && <p className="text-destructive text-sm mt-1">{errors.name.message}</p>}
-            </div>
-            <div>
-              <Label htmlFor="power-description">Descrição (para o prompt da IA)</Label>
-              <Textarea id="power-description" placeholder="Descreva o que este poder faz e como a IA deve usá-lo." rows={3} {...register("description")} />
-            </div>
-            <div>
-              <Label>Esquema de Parâmetros</Label>
-              <Tabs value={editorMode} onValueChange={(value) => handleTabChange(value as 'form' | 'json')} className="w-full">
-                <TabsList><TabsTrigger value="form">Formulário</TabsTrigger><TabsTrigger value="json">JSON</TabsTrigger></TabsList>
-                <TabsContent value="form" className="space-y-2 rounded-md border p-4">
-                  {fields.map((field, index) => (
-                    <div key={field.id} className="grid grid-cols-12 gap-2 items-start border-b pb-2">
-                      <div className="col-span-3"><Label>Atributo</Label><Input placeholder="nome_param" {...register(`formParameters.${index}.name`)} /></div>
-                      <div className="col-span-2"><Label>Tipo</Label>
-                        <Controller control={control} name={`formParameters.${index}.type`} render={({ field }) => (
-                          <Select onValueChange={field.onChange} value={field.value}><SelectTrigger><SelectValue /></SelectTrigger>
-                            <SelectContent><SelectItem value="string">String</SelectItem><SelectItem value="number">Number</SelectItem><SelectItem value="boolean">Boolean</SelectItem></SelectContent>
-                          </Select>)} />
-                      </div>
-                      <div className="col-span-5"><Label>Descrição</Label><Input placeholder="Descrição para a IA" {...register(`formParameters.${index}.description`)} /></div>
-                      <div className="col-span-1 flex flex-col items-center pt-1"><Label className="mb-2">Obrigatório</Label>
-                        <Controller control={control} name={`formParameters.${index}.required`} render={({ field }) => (
-                          <Checkbox checked={field.value} onCheckedChange={field.onChange} />)} />
-                      </div>
-                      <div className="col-span-1 flex items-end"><Button type="button" variant="ghost" size="icon" onClick={() => remove(index)}><Trash2 className="h-4 w-4" /></Button></div>
+      <Tabs value={pageTab} onValueChange={(value) => setPageTab(value as 'powers' | 'executions')} className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="powers">Poderes</TabsTrigger>
+          <TabsTrigger value="executions"><History className="mr-2 h-4 w-4" /> Execuções</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="executions">
+          {workspace && (
+            <PowerExecutions workspaceId={workspace.id} powers={powers} powerId={executionsPowerId} onPowerChange={setExecutionsPowerId} />
+          )}
+        </TabsContent>
+
+        <TabsContent value="powers" className="space-y-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>{editingPowerId ? "Editar Poder" : "Adicionar Novo Poder"}</CardTitle>
+              <RequestImportDialog reservedNames={Object.keys(systemVariables)} onImport={onImportRequest} />
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                <div>
+                  <Label htmlFor="power-name">Nome do Poder</Label>
+                  <Input id="power-name" placeholder="Ex: data_hora, clima_cidade" {...register("name")} />
+                  {errors.name && <p className="text-destructive text-sm mt-1">{errors.name.message}</p>}
+                </div>
+                <div>
+                  <Label htmlFor="power-description">Descrição (para o prompt da IA)</Label>
+                  <Textarea id="power-description" placeholder="Descreva o que este poder faz e como a IA deve usá-lo." rows={3} {...register("description")} />
+                </div>
+                <div>
+                  <Label>Esquema de Parâmetros</Label>
+                  <Tabs value={editorMode} onValueChange={(value) => handleTabChange(value as 'form' | 'json')} className="w-full">
+                    <TabsList><TabsTrigger value="form">Formulário</TabsTrigger><TabsTrigger value="json">JSON</TabsTrigger></TabsList>
+                    <TabsContent value="form" className="space-y-2 rounded-md border p-4">
+                      {parsedParametersSchema ? (
+                        <ParametersSchemaEditor schema={parsedParametersSchema} onChange={(schema) => setValue("parameters_schema", JSON.stringify(schema, null, 2))} />
+                      ) : (
+                        <p className="text-sm text-destructive">O JSON Schema atual é inválido. Corrija-o na aba JSON.</p>
+                      )}
+                    </TabsContent>
+                    <TabsContent value="json">
+                      <Textarea id="power-parameters-schema" placeholder='Define o JSON Schema para os parâmetros' rows={8} {...register("parameters_schema")} />
+                      {errors.parameters_schema && <p className="text-destructive text-sm mt-1">{errors.parameters_schema.message as string}</p>}
+                    </TabsContent>
+                  </Tabs>
+                </div>
+                <div>
+                  <Label htmlFor="power-method">Método HTTP</Label>
+                  <Select onValueChange={(value) => setValue("method", value as any)} value={currentMethod}>
+                    <SelectTrigger id="power-method"><SelectValue placeholder="Selecione o método" /></SelectTrigger>
+                    <SelectContent><SelectItem value="GET">GET</SelectItem><SelectItem value="POST">POST</SelectItem><SelectItem value="PUT">PUT</SelectItem><SelectItem value="DELETE">DELETE</SelectItem><SelectItem value="PATCH">PATCH</SelectItem></SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="power-url">URL do Endpoint</Label>
+                  <Input id="power-url" placeholder="https://api.exemplo.com/recurso" {...register("url")} />
+                  {errors.url && <p className="text-destructive text-sm mt-1">{errors.url.message}</p>}
+                </div>
+                <div>
+                  <Label htmlFor="power-headers">Cabeçalhos (JSON)</Label>
+                  <Textarea id="power-headers" placeholder='{"Content-Type": "application/json"}' rows={3} {...register("headers")} />
+                </div>
+                {(currentMethod === "POST" || currentMethod === "PUT" || currentMethod === "PATCH") && (
+                  <div>
+                    <Label htmlFor="power-body">Corpo da Requisição (JSON)</Label><Textarea id="power-body" placeholder='{"chave": "valor"}' rows={5} {...register("body")} />
+                    <p className="text-sm text-muted-foreground mt-1">{'Use {parametro} para os argumentos da IA e as variáveis do sistema, também nos cabeçalhos. Um valor que é só "{parametro}" mantém o tipo do argumento: números continuam números e listas ou objetos entram inteiros.'}</p>
+                  </div>
+                )}
+                <div>
+                  <Label htmlFor="power-api-key">Chave de API (Opcional)</Label>
+                  <Select onValueChange={(value) => setValue("api_key_id", value === "none" ? null : value)} value={watch("api_key_id") || "none"}>
+                    <SelectTrigger id="power-api-key"><SelectValue placeholder="Nenhuma" /></SelectTrigger>
+                    <SelectContent><SelectItem value="none">Nenhuma</SelectItem>{apiKeys.map((key) => (<SelectItem key={key.id} value={key.id}>{key.label} ({key.provider})</SelectItem>))}</SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground mt-1">A chave é inserida no servidor (cabeçalho, query ou Basic, conforme cadastrada) e nunca chega ao navegador. Não coloque segredos nos cabeçalhos acima.</p>
+                </div>
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox id="power-requires-confirmation" checked={watch("requires_confirmation")} onCheckedChange={(checked) => setValue("requires_confirmation", checked === true)} />
+                    <Label htmlFor="power-requires-confirmation">Exigir confirmação do usuário antes de executar</Label>
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-1">O assistente fala um resumo da ação e dos argumentos e só chama a API depois de um "sim". Recomendado para poderes que criam, alteram ou excluem dados.</p>
+                </div>
+                <div className="space-y-2 rounded-md border p-4">
+                  <Label>Resposta Enviada à IA (Opcional)</Label>
+                  <p className="text-sm text-muted-foreground">Sem transformação, a IA recebe a resposta completa, com status e cabeçalhos. Com ela, recebe só o status e os dados selecionados.</p>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                    <div>
+                      <Label htmlFor="power-transform-path">Caminho (JSONPath)</Label>
+                      <Input id="power-transform-path" placeholder="$.resultados[*]" {...register("transform_path")} />
                     </div>
-                  ))}
-                  <Button type="button" variant="outline" size="sm" onClick={() => append({ name: '', type: 'string', description: '', required: false })}><PlusCircle className="mr-2 h-4 w-4" /> Adicionar Parâmetro</Button>
-                </TabsContent>
-                <TabsContent value="json">
-                  <Textarea id="power-parameters-schema" placeholder='Define o JSON Schema para os parâmetros' rows={8} {...register("parameters_schema")} />
-                  {errors.parameters_schema && <p className="text-destructive text-sm mt-1">{errors.parameters_schema.message as string}</p>}
-                </TabsContent>
-              </Tabs>
-            </div>
-            <div>
-              <Label htmlFor="power-method">Método HTTP</Label>
-              <Select onValueChange={(value) => setValue("method", value as any)} value={currentMethod}>
-                <SelectTrigger id="power-method"><SelectValue placeholder="Selecione o método" /></SelectTrigger>
-                <SelectContent><SelectItem value="GET">GET</SelectItem><SelectItem value="POST">POST</SelectItem><SelectItem value="PUT">PUT</SelectItem><SelectItem value="DELETE">DELETE</SelectItem><SelectItem value="PATCH">PATCH</SelectItem></SelectContent>
-              </Select>
-            </div>
-            <div>
-              <Label htmlFor="power-url">URL do Endpoint</Label>
-              <Input id="power-url" placeholder="https://api.exemplo.com/recurso" {...register("url")} />
-              {errors.url && <p className="text-destructive text-sm mt-1">{errors.url.message}</p>}
-            </div>
-            <div>
-              <Label htmlFor="power-headers">Cabeçalhos (JSON)</Label>
-              <Textarea id="power-headers" placeholder='{"Content-Type": "application/json"}' rows={3} {...register("headers")} />
-            </div>
-            {(currentMethod === "POST" || currentMethod === "PUT" || currentMethod === "PATCH") && (
-              <div><Label htmlFor="power-body">Corpo da Requisição (JSON)</Label><Textarea id="power-body" placeholder='{"chave": "valor"}' rows={5} {...register("body")} /></div>
-            )}
-            <div>
-              <Label htmlFor="power-api-key">Chave de API (Opcional)</Label>
-              <Select onValueChange={(value) => setValue("api_key_id", value === "none" ? null : value)} value={watch("api_key_id") || "none"}>
-                <SelectTrigger id="power-api-key"><SelectValue placeholder="Nenhuma" /></SelectTrigger>
-                <SelectContent><SelectItem value="none">Nenhuma</SelectItem>{apiKeys.map((key) => (<SelectItem key={key.id} value={key.id}>{key.label} ({key.provider})</SelectItem>))}</SelectContent>
-              </Select>
-            </div>
-            <div className="flex space-x-2">
-              <Button type="submit" disabled={isSubmitting}><PlusCircle className="mr-2 h-4 w-4" /> {editingPowerId ? "Salvar Alterações" : "Adicionar Poder"}</Button>
-              <Button type="button" onClick={handleTestPower} disabled={testingPower || isSubmitting} variant="secondary"><Play className="mr-2 h-4 w-4" /> {testingPower ? "Testando..." : "Testar Poder"}</Button>
-              {editingPowerId && (<Button type="button" variant="outline" onClick={() => { reset(); setEditingPowerId(null); setTestResult(null); }} className="ml-2">Cancelar Edição</Button>)}
-            </div>
-          </form>
-        </CardContent>
-      </Card>
-      {testResult && (
-        <Card>
-          <CardHeader><CardTitle>Resultado do Teste</CardTitle></CardHeader>
-          <CardContent className="space-y-2">
-            {testResult.error ? (
-              <div className="text-destructive">
-                <p className="font-semibold">Erro:</p><pre className="bg-red-100 dark:bg-red-900 p-2 rounded-md text-sm overflow-auto">{testResult.error}</pre>
-                {testResult.details && (<><p className="font-semibold mt-2">Detalhes:</p><pre className="bg-red-100 dark:bg-red-900 p-2 rounded-md text-sm overflow-auto">{testResult.details}</pre></>)}
-              </div>
-            ) : (
-              <div>
-                <p className={testResult.ok ? "text-green-600" : "text-orange-600"}>Status: {testResult.status} {testResult.statusText} ({testResult.ok ? "OK" : "Erro"})</p>
-                <p className="font-semibold mt-2">Headers da Resposta:</p><pre className="bg-gray-100 dark:bg-gray-800 p-2 rounded-md text-sm overflow-auto">{JSON.stringify(testResult.headers, null, 2)}</pre>
-                <p className="font-semibold mt-2">Dados da Resposta:</p><pre className="bg-gray-100 dark:bg-gray-800 p-2 rounded-md text-sm overflow-auto">{typeof testResult.data === 'object' ? JSON.stringify(testResult.data, null, 2) : testResult.data}</pre>
-              </div>
-            )}
-            <p className="text-sm text-muted-foreground mt-4">Nota: Este teste utiliza uma Edge Function do Supabase para contornar problemas de CORS.</p>
-          </CardContent>
-        </Card>
-      )}
-      <Card>
-        <CardHeader><CardTitle>Poderes Existentes</CardTitle></CardHeader>
-        <CardContent>
-          {powers.length === 0 ? (<p className="text-muted-foreground">Nenhum poder adicionado ainda.</p>) : (
-            <div className="space-y-4">
-              {powers.map((power) => (
-                <div key={power.id} className="flex items-center justify-between p-3 border rounded-md">
+                    <div>
+                      <Label htmlFor="power-transform-fields">Campos (separados por vírgula)</Label>
+                      <Input id="power-transform-fields" placeholder="nome, preco, cliente.cidade" {...register("transform_fields")} />
+                    </div>
+                    <div>
+                      <Label htmlFor="power-transform-max-length">Limite de caracteres</Label>
+                      <Input id="power-transform-max-length" type="number" min={1} placeholder="2000" {...register("transform_max_length")} />
+                      {errors.transform_max_length && <p className="text-destructive text-sm mt-1">{errors.transform_max_length.message}</p>}
+                    </div>
+                  </div>
                   <div>
-                    <h3 className="font-semibold">{power.name}</h3>
-                    <p className="text-sm text-muted-foreground">{power.description}</p>
-                    <p className="text-xs text-muted-foreground">{power.method} {power.url}</p>
+                    <Label htmlFor="power-transform-template">Modelo de texto</Label>
+                    <Textarea id="power-transform-template" placeholder="{{nome}}: R$ {{preco}}" rows={2} {...register("transform_template")} />
+                    <p className="text-sm text-muted-foreground mt-1">{"Use {{campo}} para cada item selecionado; listas geram uma linha por item."}</p>
                   </div>
-                  <div className="flex space-x-2">
-                    <Button variant="outline" size="sm" onClick={() => onEdit(power)}><Edit className="h-4 w-4" /></Button>
-                    <Button variant="destructive" size="sm" onClick={() => onDelete(power.id)}><Trash2 className="h-4 w-4" /></Button>
+                </div>
+                <div className="space-y-2 rounded-md border p-4">
+                  <Label>Argumentos de Teste</Label>
+                  <p className="text-sm text-muted-foreground">Simulam os argumentos enviados pela IA: são validados contra o schema de parâmetros e substituem os {"{param}"} da URL, cabeçalhos e corpo, como numa conversa.</p>
+                  <div className="flex gap-2">
+                    <Input placeholder="Frase de exemplo, ex.: Qual a previsão do tempo em Curitiba amanhã?" value={testSentence} onChange={(event) => setTestSentence(event.target.value)} />
+                    <Button type="button" variant="outline" onClick={handleFillArguments} disabled={fillingArguments || !testSentence.trim() || !parsedParametersSchema}>
+                      <Sparkles className="mr-2 h-4 w-4" /> {fillingArguments ? "Preenchendo..." : "Preencher com IA"}
+                    </Button>
+                  </div>
+                  <PowerArgumentsForm schema={parsedParametersSchema} value={testArguments} onChange={setTestArguments} />
+                </div>
+                <div className="flex space-x-2">
+                  <Button type="submit" disabled={isSubmitting}><PlusCircle className="mr-2 h-4 w-4" /> {editingPowerId ? "Salvar Alterações" : "Adicionar Poder"}</Button>
+                  <Button type="button" onClick={handleTestPower} disabled={testingPower || isSubmitting} variant="secondary"><Play className="mr-2 h-4 w-4" /> {testingPower ? "Testando..." : "Testar Poder"}</Button>
+                  {editingPowerId && (<Button type="button" variant="outline" onClick={() => { reset(); setEditingPowerId(null); resetTest(); }} className="ml-2">Cancelar Edição</Button>)}
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+          {testResult && (
+            <Card>
+              <CardHeader><CardTitle>Resultado do Teste</CardTitle></CardHeader>
+              <CardContent className="space-y-2">
+                <div className={`grid grid-cols-1 gap-4 ${testRequest ? "lg:grid-cols-2" : ""}`}>
+                  {testRequest && (
+                    <div>
+                      <p className="font-semibold">Requisição Enviada:</p>
+                      <p className="text-sm"><span className="font-semibold">{testRequest.method}</span> <span className="font-mono break-all">{testRequest.url}</span></p>
+                      <p className="font-semibold mt-2">Headers:</p><pre className="bg-gray-100 dark:bg-gray-800 p-2 rounded-md text-sm overflow-auto">{JSON.stringify(testRequest.headers, null, 2)}</pre>
+                      {testRequest.body && (<><p className="font-semibold mt-2">Corpo:</p><pre className="bg-gray-100 dark:bg-gray-800 p-2 rounded-md text-sm overflow-auto">{JSON.stringify(testRequest.body, null, 2)}</pre></>)}
+                      <p className="font-semibold mt-2">Argumentos:</p><pre className="bg-gray-100 dark:bg-gray-800 p-2 rounded-md text-sm overflow-auto">{JSON.stringify(testRequest.arguments, null, 2)}</pre>
+                    </div>
+                  )}
+                  <div>
+                    {testResult.error ? (
+                      <div className="text-destructive">
+                        <p className="font-semibold">Erro:</p><pre className="bg-red-100 dark:bg-red-900 p-2 rounded-md text-sm overflow-auto">{testResult.error}</pre>
+                        {testResult.details && (<><p className="font-semibold mt-2">Detalhes:</p><pre className="bg-red-100 dark:bg-red-900 p-2 rounded-md text-sm overflow-auto">{testResult.details}</pre></>)}
+                      </div>
+                    ) : (
+                      <div>
+                        <p className={testResult.ok ? "text-green-600" : "text-orange-600"}>Status: {testResult.status} {testResult.statusText} ({testResult.ok ? "OK" : "Erro"})</p>
+                        <p className="font-semibold mt-2">Headers da Resposta:</p><pre className="bg-gray-100 dark:bg-gray-800 p-2 rounded-md text-sm overflow-auto">{JSON.stringify(testResult.headers, null, 2)}</pre>
+                        <p className="font-semibold mt-2">Dados da Resposta:</p><pre className="bg-gray-100 dark:bg-gray-800 p-2 rounded-md text-sm overflow-auto">{typeof testResult.data === 'object' ? JSON.stringify(testResult.data, null, 2) : testResult.data}</pre>
+                        {previewTransform && (
+                          <>
+                            <p className="font-semibold mt-2">Resultado Enviado à IA (com a transformação):</p>
+                            <pre className="bg-blue-50 dark:bg-blue-950 p-2 rounded-md text-sm overflow-auto whitespace-pre-wrap">{validateResponseTransform(previewTransform) || JSON.stringify(applyResponseTransform(testResult, previewTransform), null, 2)}</pre>
+                          </>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
-              ))}
-            </div>
+                <p className="text-sm text-muted-foreground mt-4">Nota: Este teste utiliza uma Edge Function do Supabase para contornar problemas de CORS.</p>
+              </CardContent>
+            </Card>
           )}
-        </CardContent>
-      </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Poderes Existentes</CardTitle>
+              {workspace && (<OpenApiImportDialog workspaceId={workspace.id} apiKeys={apiKeys} existingNames={powers.map((power) => power.name)} reservedNames={Object.keys(systemVariables)} onImported={handlePowersImported} />)}
+            </CardHeader>
+            <CardContent>
+              {powers.length === 0 ? (<p className="text-muted-foreground">Nenhum poder adicionado ainda.</p>) : (
+                <div className="space-y-4">
+                  {powers.map((power) => (
+                    <div key={power.id} className="flex items-center justify-between p-3 border rounded-md">
+                      <div>
+                        <h3 className="font-semibold">{power.name}{power.requires_confirmation && <Badge variant="outline" className="ml-2">Pede confirmação</Badge>}</h3>
+                        <p className="text-sm text-muted-foreground">{power.description}</p>
+                        <p className="text-xs text-muted-foreground">{power.method} {power.url}</p>
+                      </div>
+                      <div className="flex space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => { setExecutionsPowerId(power.id); setPageTab('executions'); }} title="Execuções"><History className="h-4 w-4" /></Button>
+                        <Button variant="outline" size="sm" onClick={() => onEdit(power)}><Edit className="h-4 w-4" /></Button>
+                        <Button variant="destructive" size="sm" onClick={() => onDelete(power.id)}><Trash2 className="h-4 w-4" /></Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
     </div>
   );
 };
@@ -20,20 +20,38 @@ import { Button } from "@/components/ui/button";
 import { useSession } from "@/contexts/SessionContext";
 import { supabase } from "@/integrations/supabase/client";
 import { showSuccess, showError } from "@/utils/toast";
+import { testCustomEndpoint, ConnectionTestResult } from "@/lib/llm";
+import { Play } from "lucide-react";
 
-const settingsSchema = z.object({
+const settingsSchema = z
+  .object({
   system_prompt: z.string().min(10, "Prompt do sistema é obrigatório"),
   assistant_prompt: z.string().min(10, "Prompt do assistente é obrigatório"),
-  ai_model: z.enum(["openai-gpt4", "openai-gpt3.5", "gemini-pro", "gpt-4o-mini"]),
+  ai_model: z.enum(["openai-gpt4", "openai-gpt3.5", "gemini-pro", "gpt-4o-mini", "openai-compatible"]),
   voice_model: z.enum(["browser", "openai-tts", "gemini-tts"]),
   openai_tts_voice: z.string().optional().nullable(),
+  gemini_tts_voice: z.string().optional().nullable(),
   voice_sensitivity: z.number().min(0).max(100),
   openai_api_key: z.string().optional().nullable(),
   gemini_api_key: z.string().optional().nullable(),
+  llm_base_url: z.string().url("URL inválida").optional().nullable().or(z.literal("")),
+  llm_model_name: z.string().optional().nullable(),
+  llm_api_key: z.string().optional().nullable(),
   conversation_memory_length: z.number().min(0).max(10),
+  max_tool_steps: z.number().min(1, "Mínimo de 1 passo").max(10, "Máximo de 10 passos"),
   activation_phrase: z.string().min(1, "Frase de ativação é obrigatória"),
   welcome_message: z.string().optional().nullable(), // Novo campo
-});
+  })
+  .superRefine((data, ctx) => {
+    // O servidor próprio só é obrigatório quando é o modelo escolhido
+    if (data.ai_model !== "openai-compatible") return;
+    if (!data.llm_base_url) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["llm_base_url"], message: "URL base é obrigatória para o servidor próprio" });
+    }
+    if (!data.llm_model_name) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["llm_model_name"], message: "Nome do modelo é obrigatório para o servidor próprio" });
+    }
+  });
 
 type SettingsFormData = z.infer<typeof settingsSchema>;
 
@@ -45,10 +63,15 @@ const defaultValues: SettingsFormData = {
   ai_model: "gpt-4o-mini",
   voice_model: "browser",
   openai_tts_voice: "alloy",
+  gemini_tts_voice: "Kore",
   voice_sensitivity: 50,
   openai_api_key: "",
   gemini_api_key: "",
+  llm_base_url: "",
+  llm_model_name: "",
+  llm_api_key: "",
   conversation_memory_length: 5,
+  max_tool_steps: 5,
   activation_phrase: "ativar",
   welcome_message: "Bem-vindo ao site! Diga 'ativar' para começar a conversar.", // Valor padrão
 };
@@ -66,6 +89,24 @@ const OPENAI_TTS_VOICES = [
   { value: "coral", label: "Coral" },
 ];
 
+// Vozes pré-definidas do Gemini TTS (parâmetro voiceName da API)
+const GEMINI_TTS_VOICES = [
+  { value: "Kore", label: "Kore (padrão)" },
+  { value: "Puck", label: "Puck" },
+  { value: "Charon", label: "Charon" },
+  { value: "Zephyr", label: "Zephyr" },
+  { value: "Fenrir", label: "Fenrir" },
+  { value: "Leda", label: "Leda" },
+  { value: "Orus", label: "Orus" },
+  { value: "Aoede", label: "Aoede" },
+  { value: "Callirrhoe", label: "Callirrhoe" },
+  { value: "Autonoe", label: "Autonoe" },
+  { value: "Enceladus", label: "Enceladus" },
+  { value: "Iapetus", label: "Iapetus" },
+  { value: "Despina", label: "Despina" },
+  { value: "Sulafat", label: "Sulafat" },
+];
+
 const SettingsPage: React.FC = () => {
   const { workspace, loading } = useSession();
   const [loadingSettings, setLoadingSettings] = useState(true);
@@ -76,6 +117,7 @@ const SettingsPage: React.FC = () => {
     handleSubmit,
     setValue,
     watch,
+    getValues,
     formState: { errors, isSubmitting },
   } = useForm<SettingsFormData>({
     resolver: zodResolver(settingsSchema),
@@ -83,6 +125,9 @@ const SettingsPage: React.FC = () => {
   });
 
   const voiceModel = watch("voice_model");
+  const aiModel = watch("ai_model");
+  const [testingConnection, setTestingConnection] = useState(false);
+  const [connectionResult, setConnectionResult] = useState<(ConnectionTestResult & { error?: string }) | null>(null);
 
   useEffect(() => {
     if (!loading && workspace && workspace.id) {
@@ -105,10 +150,15 @@ const SettingsPage: React.FC = () => {
             setValue("ai_model", data.ai_model || defaultValues.ai_model);
             setValue("voice_model", data.voice_model || defaultValues.voice_model);
             setValue("openai_tts_voice", data.openai_tts_voice || defaultValues.openai_tts_voice);
+            setValue("gemini_tts_voice", data.gemini_tts_voice || defaultValues.gemini_tts_voice);
             setValue("voice_sensitivity", data.voice_sensitivity ?? defaultValues.voice_sensitivity);
             setValue("openai_api_key", data.openai_api_key || defaultValues.openai_api_key);
             setValue("gemini_api_key", data.gemini_api_key || defaultValues.gemini_api_key);
+            setValue("llm_base_url", data.llm_base_url || defaultValues.llm_base_url);
+            setValue("llm_model_name", data.llm_model_name || defaultValues.llm_model_name);
+            setValue("llm_api_key", data.llm_api_key || defaultValues.llm_api_key);
             setValue("conversation_memory_length", data.conversation_memory_length ?? defaultValues.conversation_memory_length);
+            setValue("max_tool_steps", data.max_tool_steps ?? defaultValues.max_tool_steps);
             setValue("activation_phrase", data.activation_phrase || defaultValues.activation_phrase);
             setValue("welcome_message", data.welcome_message || defaultValues.welcome_message); // Novo campo
           }
@@ -131,10 +181,15 @@ const SettingsPage: React.FC = () => {
         ai_model: formData.ai_model,
         voice_model: formData.voice_model,
         openai_tts_voice: formData.openai_tts_voice || null,
+        gemini_tts_voice: formData.gemini_tts_voice || null,
         voice_sensitivity: formData.voice_sensitivity,
         openai_api_key: formData.openai_api_key || null,
         gemini_api_key: formData.gemini_api_key || null,
+        llm_base_url: formData.llm_base_url || null,
+        llm_model_name: formData.llm_model_name || null,
+        llm_api_key: formData.llm_api_key || null,
         conversation_memory_length: formData.conversation_memory_length,
+        max_tool_steps: formData.max_tool_steps,
         activation_phrase: formData.activation_phrase,
         welcome_message: formData.welcome_message || null, // Novo campo
       },
@@ -149,6 +204,28 @@ const SettingsPage: React.FC = () => {
     }
   };
 
+  const handleTestConnection = async () => {
+    const { llm_base_url, llm_model_name, llm_api_key } = getValues();
+    if (!llm_base_url) {
+      showError("URL base é obrigatória para testar a conexão.");
+      return;
+    }
+    setTestingConnection(true);
+    setConnectionResult(null);
+    try {
+      const result = await testCustomEndpoint({ baseUrl: llm_base_url, model: llm_model_name || "" }, llm_api_key);
+      setConnectionResult(result);
+      showSuccess("Conexão com o servidor estabelecida!");
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e);
+      setConnectionResult({ models: [], modelFound: false, error: message });
+      showError(`Erro ao testar conexão: ${message}`);
+      console.error("Erro ao testar conexão com o servidor LLM:", e);
+    } finally {
+      setTestingConnection(false);
+    }
+  };
+
   if (loading || loadingSettings) {
     return <div className="min-h-screen flex items-center justify-center">Carregando...</div>;
   }
@@ -221,15 +298,76 @@ const SettingsPage: React.FC = () => {
                 <SelectContent>
                   <SelectItem value="openai-gpt4">OpenAI GPT-4</SelectItem>
                   <SelectItem value="openai-gpt3.5">OpenAI GPT-3.5</SelectItem>
-                  <SelectItem value="gemini-pro">Gemini Pro (não implementado)</SelectItem>
+                  <SelectItem value="gemini-pro">Gemini Pro</SelectItem>
                   <SelectItem value="gpt-4o-mini">GPT-4o Mini</SelectItem>
+                  <SelectItem value="openai-compatible">Servidor próprio (compatível com OpenAI)</SelectItem>
                 </SelectContent>
               </Select>
             )}
           />
+          <p className="text-sm text-muted-foreground mt-1">
+            Os modelos OpenAI usam a Chave API OpenAI, o Gemini Pro usa a Chave API Gemini e o servidor próprio usa as opções abaixo.
+          </p>
         </CardContent>
       </Card>
 
+      {aiModel === "openai-compatible" && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Servidor Próprio (compatível com OpenAI)</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="llm-base-url">URL Base</Label>
+              <Input id="llm-base-url" placeholder="Ex: https://llm.minhaempresa.com/v1" {...register("llm_base_url")} />
+              {errors.llm_base_url && (
+                <p className="text-destructive text-sm mt-1">{errors.llm_base_url.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="llm-model-name">Nome do Modelo</Label>
+              <Input id="llm-model-name" placeholder="Ex: llama3.1, qwen2.5:7b-instruct" {...register("llm_model_name")} />
+              {errors.llm_model_name && (
+                <p className="text-destructive text-sm mt-1">{errors.llm_model_name.message}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="llm-api-key">Chave API (Opcional)</Label>
+              <Input
+                id="llm-api-key"
+                type="password"
+                placeholder="Deixe em branco se o servidor não exigir"
+                autoComplete="new-password"
+                {...register("llm_api_key")}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              As chamadas saem do servidor do Supabase (Edge Function), então a URL precisa ser acessível pela internet; endereços como localhost não funcionam.
+              Para usar poderes, escolha um modelo com suporte a tool calling.
+            </p>
+            <Button type="button" variant="secondary" onClick={handleTestConnection} disabled={testingConnection}>
+              <Play className="mr-2 h-4 w-4" /> {testingConnection ? "Testando..." : "Testar Conexão"}
+            </Button>
+            {connectionResult && (
+              connectionResult.error ? (
+                <pre className="bg-red-100 dark:bg-red-900 text-destructive p-2 rounded-md text-sm overflow-auto">{connectionResult.error}</pre>
+              ) : (
+                <div className="text-sm space-y-1">
+                  <p className={connectionResult.modelFound ? "text-green-600" : "text-orange-600"}>
+                    {connectionResult.modelFound
+                      ? `Conectado. O modelo "${getValues("llm_model_name")}" está disponível.`
+                      : `Conectado, mas o modelo "${getValues("llm_model_name")}" não foi encontrado no servidor.`}
+                  </p>
+                  {connectionResult.models.length > 0 && (
+                    <p className="text-muted-foreground">Modelos disponíveis: {connectionResult.models.join(", ")}</p>
+                  )}
+                </div>
+              )
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Modelo de Voz</CardTitle>
@@ -246,7 +384,7 @@ const SettingsPage: React.FC = () => {
                 <SelectContent>
                   <SelectItem value="browser">Navegador (Web Speech API)</SelectItem>
                   <SelectItem value="openai-tts">OpenAI TTS</SelectItem>
-                  <SelectItem value="gemini-tts">Gemini TTS (não implementado)</SelectItem>
+                  <SelectItem value="gemini-tts">Gemini TTS</SelectItem>
                 </SelectContent>
               </Select>
             )}
@@ -282,6 +420,37 @@ const SettingsPage: React.FC = () => {
         </Card>
       )}
 
+      {voiceModel === "gemini-tts" && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Voz Gemini TTS</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Controller
+              control={control}
+              name="gemini_tts_voice"
+              render={({ field }) => (
+                <Select onValueChange={field.onChange} value={field.value || "Kore"}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione a voz Gemini TTS" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GEMINI_TTS_VOICES.map((voice) => (
+                      <SelectItem key={voice.value} value={voice.value}>
+                        {voice.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+            <p className="text-sm text-muted-foreground mt-1">
+              Usa a Chave API Gemini configurada abaixo.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Sensibilidade do Microfone</CardTitle>
@@ -352,6 +521,27 @@ const SettingsPage: React.FC = () => {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Passos Máximos de Poderes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Input
+            {...register("max_tool_steps", { valueAsNumber: true })}
+            type="number"
+            min={1}
+            max={10}
+            placeholder="Número máximo de rodadas de poderes por resposta"
+          />
+          <p className="text-sm text-muted-foreground mt-1">
+            Quantas vezes seguidas a IA pode acionar poderes antes de responder (1 a 10)
+          </p>
+          {errors.max_tool_steps && (
+            <p className="text-destructive text-sm mt-1">{errors.max_tool_steps.message}</p>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Palavra/Frase de Ativação</CardTitle>
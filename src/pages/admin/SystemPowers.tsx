@@ -23,7 +23,7 @@ import { useSession } from '@/contexts/SessionContext';
 import { useSystem } from '@/contexts/SystemContext'; // Importar o hook
 import { supabase } from '@/integrations/supabase/client';
 import { showError, showSuccess } from '@/utils/toast';
-import { replacePlaceholders } from '@/lib/utils'; // Importar a função
+import { renderHeaderTemplate, renderTemplate, replacePlaceholders, systemVariableValues } from '@/lib/utils'; // Importar as funções
 
 interface SystemPower {
   id: string;
@@ -211,13 +211,12 @@ const SystemPowersPage: React.FC = () => {
       console.log("[SystemPowersPage] systemVariables before processing:", systemVariables); // Added log
       // Substituir placeholders usando as variáveis do sistema já carregadas
       const processedUrl = replacePlaceholders(formData.url || '', systemVariables);
-      const processedHeadersStr = replacePlaceholders(formData.headers || '{}', systemVariables);
-      const processedBodyStr = replacePlaceholders(formData.body || '{}', systemVariables);
+      const variableValues = systemVariableValues(systemVariables);
 
       console.log("[SystemPowersPage] Processed URL for test:", processedUrl); // Added log
 
-      const parsedHeaders = JSON.parse(processedHeadersStr);
-      const parsedBody = (currentMethod === "POST" || currentMethod === "PUT" || currentMethod === "PATCH") ? JSON.parse(processedBodyStr) : undefined;
+      const parsedHeaders = renderHeaderTemplate(JSON.parse(formData.headers || '{}'), variableValues);
+      const parsedBody = (currentMethod === "POST" || currentMethod === "PUT" || currentMethod === "PATCH") ? renderTemplate(JSON.parse(formData.body || '{}'), variableValues) : undefined;
       
       const payload = { url: processedUrl, method: formData.method, headers: parsedHeaders, body: parsedBody };
       
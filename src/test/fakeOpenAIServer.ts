@@ -0,0 +1,125 @@
+// Servidor local no formato da API de chat completions da OpenAI, usado pelos testes no lugar do provedor real.
+// Responde em JSON ou em SSE (quando o corpo pede stream) e guarda os corpos recebidos para as verificações.
+
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { LlmSender } from "@/lib/llm";
+import type { ChatMessage, ToolCall } from "@/lib/orchestrator";
+
+export interface ChatCompletionBody {
+  model?: string;
+  messages: ChatMessage[];
+  tools?: unknown[];
+  tool_choice?: string;
+  stream?: boolean;
+}
+
+export interface FakeReply {
+  content?: string | null;
+  tool_calls?: ToolCall[];
+  usage?: { prompt_tokens: number; completion_tokens: number };
+  // Resposta de erro no formato da OpenAI ({ error: { message } })
+  status?: number;
+  error?: string;
+}
+
+export type FakeHandler = (body: ChatCompletionBody, index: number) => FakeReply | Promise<FakeReply>;
+
+export interface FakeOpenAIServer {
+  baseUrl: string;
+  requests: ChatCompletionBody[];
+  // Resolve quando o servidor tiver recebido pelo menos `count` requisições
+  waitForRequests: (count: number) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => resolve(data));
+    req.on("error", reject);
+  });
+
+const writeJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+// Divide o texto em pedaços por palavra e os argumentos dos tool_calls em duas partes, como faz a API real
+const writeStream = (res: ServerResponse, reply: FakeReply) => {
+  res.writeHead(200, { "Content-Type": "text/event-stream" });
+  const send = (chunk: unknown) => res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  for (const piece of (reply.content || "").match(/\S+\s*/g) || []) {
+    send({ choices: [{ index: 0, delta: { content: piece } }] });
+  }
+  (reply.tool_calls || []).forEach((toolCall, index) => {
+    const middle = Math.floor(toolCall.function.arguments.length / 2);
+    send({ choices: [{ index: 0, delta: { tool_calls: [{ index, id: toolCall.id, type: "function", function: { name: toolCall.function.name, arguments: toolCall.function.arguments.slice(0, middle) } }] } }] });
+    send({ choices: [{ index: 0, delta: { tool_calls: [{ index, function: { arguments: toolCall.function.arguments.slice(middle) } }] } }] });
+  });
+  if (reply.usage) send({ choices: [], usage: reply.usage });
+  res.end("data: [DONE]\n\n");
+};
+
+// `models` é a lista devolvida por GET /models, usada pelo teste de conexão das Configurações
+export const startFakeOpenAIServer = async (handler: FakeHandler, models: string[] = []): Promise<FakeOpenAIServer> => {
+  const requests: ChatCompletionBody[] = [];
+  const waiters: { count: number; resolve: () => void }[] = [];
+
+  const server = createServer(async (req, res) => {
+    if (req.method === "GET" && req.url?.endsWith("/models")) {
+      writeJson(res, 200, { object: "list", data: models.map((id) => ({ id, object: "model" })) });
+      return;
+    }
+    if (req.method !== "POST" || !req.url?.endsWith("/chat/completions")) {
+      writeJson(res, 404, { error: { message: "Not found" } });
+      return;
+    }
+    const body = JSON.parse(await readBody(req)) as ChatCompletionBody;
+    const index = requests.push(body) - 1;
+    waiters.filter((waiter) => requests.length >= waiter.count).forEach((waiter) => waiter.resolve());
+
+    const reply = await handler(body, index);
+    // O cliente pode ter desistido (interrupção) enquanto o handler esperava
+    if (res.destroyed) return;
+    if (reply.error) {
+      writeJson(res, reply.status || 500, { error: { message: reply.error } });
+    } else if (body.stream) {
+      writeStream(res, reply);
+    } else {
+      const message = { role: "assistant", content: reply.content ?? null, ...(reply.tool_calls ? { tool_calls: reply.tool_calls } : {}) };
+      writeJson(res, 200, { choices: [{ index: 0, message, finish_reason: reply.tool_calls ? "tool_calls" : "stop" }], usage: reply.usage });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    requests,
+    waitForRequests: (count) =>
+      requests.length >= count ? Promise.resolve() : new Promise((resolve) => waiters.push({ count, resolve })),
+    close: () =>
+      new Promise((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+};
+
+// No app o corpo sai pelo ai-proxy; nos testes vai direto ao servidor falso, com o modelo acrescentado como faz o proxy
+export const createFetchSender = (baseUrl: string): LlmSender => (body, { stream, signal }) =>
+  fetch(`${baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: "modelo-de-teste", ...(body as object), stream: stream || undefined }),
+    signal,
+  });
+
+export const toolCall = (id: string, name: string, args: Record<string, unknown>): ToolCall => ({
+  id,
+  type: "function",
+  function: { name, arguments: JSON.stringify(args) },
+});
@@ -24,4 +24,8 @@ declare var SpeechSynthesisUtterance: {
 declare var SpeechSynthesis: {
   prototype: SpeechSynthesis;
   new (): SpeechSynthesis;
-};
\ No newline at end of file
+};
+// Edge Functions importam o supabase-js pela URL do esm.sh; os testes que rodam o código delas usam os tipos do pacote instalado
+declare module "https://esm.sh/@supabase/supabase-js@2.45.0" {
+  export * from "@supabase/supabase-js";
+}
@@ -0,0 +1,21 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+// True when the request carries the session of a logged-in member of the workspace (admin screens)
+export const isWorkspaceMember = async (req: Request, supabaseAdmin: SupabaseClient, workspaceId: string) => {
+  const supabaseUser = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } },
+  );
+  const { data: { user } } = await supabaseUser.auth.getUser();
+  if (!user) return false;
+
+  const { data: membership, error } = await supabaseAdmin
+    .from('workspace_members')
+    .select('user_id')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (error) throw error;
+  return !!membership;
+};
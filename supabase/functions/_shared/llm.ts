@@ -0,0 +1,92 @@
+// Model catalogue and tool definitions shared by the browser (src/lib/llm.ts, src/lib/powers.ts) and by
+// ai-proxy, which resolves the model and builds the tools of visitor conversations from the stored powers.
+// Keep it free of runtime-specific APIs.
+
+export type LlmProvider = "openai" | "gemini" | "custom";
+
+export interface ModelInfo {
+  provider: LlmProvider;
+  model: string;
+}
+
+// Values of settings.ai_model offered on the settings page
+export const AI_MODELS: Record<string, ModelInfo> = {
+  "openai-gpt4": { provider: "openai", model: "gpt-4" },
+  "openai-gpt3.5": { provider: "openai", model: "gpt-3.5-turbo" },
+  "gpt-4o-mini": { provider: "openai", model: "gpt-4o-mini" },
+  "gemini-pro": { provider: "gemini", model: "gemini-2.5-pro" },
+  // Self-hosted server (Ollama, vLLM, LM Studio); the model name comes from settings.llm_model_name
+  "openai-compatible": { provider: "custom", model: "" },
+};
+
+// Models outside the list are resolved by their name prefix, to accept values stored by hand
+export const resolveModel = (aiModel: string): ModelInfo =>
+  AI_MODELS[aiModel] || { provider: aiModel.startsWith("gemini") ? "gemini" : "openai", model: aiModel };
+
+export interface ToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description: string | null;
+    parameters: Record<string, unknown> | null;
+  };
+}
+
+export interface PowerToolSource {
+  name: string;
+  description: string | null;
+  parameters_schema: Record<string, unknown> | null;
+}
+
+export const powersToTools = (powers: PowerToolSource[]): ToolDefinition[] =>
+  powers.map(power => ({
+    type: "function" as const,
+    function: {
+      name: power.name,
+      description: power.description,
+      parameters: power.parameters_schema,
+    },
+  }));
+
+// JSON Schema fields accepted in Gemini function declarations (a subset of OpenAPI)
+const GEMINI_SCHEMA_KEYS = new Set([
+  "type", "format", "description", "nullable", "enum", "properties", "required", "items",
+  "minItems", "maxItems", "minimum", "maximum", "minLength", "maxLength", "pattern", "default",
+]);
+
+type JsonSchema = { [key: string]: unknown };
+
+export const toGeminiSchema = (schema: JsonSchema | null): JsonSchema | null => {
+  if (!schema || typeof schema !== "object") return schema;
+  const result: JsonSchema = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (!GEMINI_SCHEMA_KEYS.has(key)) continue;
+    if (key === "properties") {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, JsonSchema>).map(([name, prop]) => [name, toGeminiSchema(prop)]),
+      );
+    } else if (key === "items") {
+      result.items = toGeminiSchema(value as JsonSchema);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+};
+
+const toFunctionDeclaration = ({ function: fn }: ToolDefinition) => {
+  const parameters = toGeminiSchema(fn.parameters);
+  // Gemini rejects objects without properties; powers without parameters go without "parameters"
+  const hasParameters = parameters && Object.keys(parameters.properties || {}).length > 0;
+  return {
+    name: fn.name,
+    description: fn.description || undefined,
+    parameters: hasParameters ? parameters : undefined,
+  };
+};
+
+// "tools" and "toolConfig" fields of a Gemini generateContent request
+export const toGeminiTools = (tools: ToolDefinition[]) => ({
+  tools: [{ functionDeclarations: tools.map(toFunctionDeclaration) }],
+  toolConfig: { functionCallingConfig: { mode: "AUTO" } },
+});
@@ -0,0 +1,122 @@
+// Placeholder rendering for power requests. Shared by the browser (src/lib/utils.ts, src/lib/powers.ts)
+// and by proxy-api, which rebuilds the request of a stored power from its template instead of trusting
+// the URL, headers and body sent by the client. Keep it free of runtime-specific APIs.
+
+// Placeholders like {name}, filled by system variables and by the AI arguments
+const PLACEHOLDER_PATTERN = /\{([^{}]+)\}/g;
+const WHOLE_PLACEHOLDER = /^\{([^{}]+)\}$/;
+
+const hasValue = (variables: Record<string, unknown>, key: string) =>
+  Object.prototype.hasOwnProperty.call(variables, key) && variables[key] !== null && variables[key] !== undefined;
+
+// System variables that are objects, such as the get-client-ip result, count as their 'ip' property
+export function systemVariableValues(variables: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(variables).map(([key, value]) => [key, typeof value === 'object' && value !== null ? (value as { ip?: unknown }).ip || value : value]),
+  );
+}
+
+// Replaces the placeholders inside a text; values that are not text go in as JSON
+export function renderTemplateString(text: string, variables: Record<string, unknown>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+    if (!hasValue(variables, key)) return match;
+    const value = variables[key];
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+}
+
+// A text that is only "{name}" with no value: an optional argument the AI did not send
+const isUnfilledPlaceholder = (value: unknown, variables: Record<string, unknown>) => {
+  if (typeof value !== 'string') return false;
+  const whole = WHOLE_PLACEHOLDER.exec(value);
+  return !!whole && !hasValue(variables, whole[1]);
+};
+
+// Walks a JSON value (the request body) replacing placeholders at any depth. A text that is only "{name}"
+// receives the value with its original type: numbers stay numbers and objects go in whole.
+// Without a value that field (or list item) is omitted; placeholders in the middle of a text are kept.
+export function renderTemplate(value: unknown, variables: Record<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    const whole = WHOLE_PLACEHOLDER.exec(value);
+    if (whole && hasValue(variables, whole[1])) return variables[whole[1]];
+    return renderTemplateString(value, variables);
+  }
+  if (Array.isArray(value)) {
+    return value.filter(item => !isUnfilledPlaceholder(item, variables)).map(item => renderTemplate(item, variables));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => !isUnfilledPlaceholder(item, variables))
+        .map(([key, item]) => [key, renderTemplate(item, variables)]),
+    );
+  }
+  return value;
+}
+
+// HTTP headers are always text, so types are not preserved. Line breaks are removed from the values
+// so an argument cannot append headers to the request.
+export function renderHeaderTemplate(headers: Record<string, string>, variables: Record<string, unknown>): Record<string, string> {
+  const singleLine = Object.fromEntries(
+    Object.entries(variables).map(([key, value]) => [key, typeof value === 'string' ? value.replace(/[\r\n]+/g, '') : value]),
+  );
+  return Object.fromEntries(
+    Object.entries(headers).map(([key, value]) => [key, renderTemplateString(String(value), singleLine)]),
+  );
+}
+
+// Optional query parameters the AI did not fill stay as "{param}" in the URL and are removed
+const dropUnfilledQueryParams = (url: string) => {
+  const queryStart = url.indexOf('?');
+  if (queryStart === -1) return url;
+  const base = url.slice(0, queryStart);
+  const kept = url.slice(queryStart + 1).split('&').filter(pair => !/=\{[^}]*\}$/.test(pair));
+  return kept.length ? `${base}?${kept.join('&')}` : base;
+};
+
+export interface RequestTemplate {
+  method: string;
+  url: string | null;
+  headers: Record<string, string> | null;
+  body: Record<string, unknown> | null;
+}
+
+export interface RenderedRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string> | null;
+  body: Record<string, unknown> | null;
+}
+
+// Builds the request of a power from its template, the system variables (already reduced with
+// systemVariableValues and, in proxy-api, limited to the workspace's system variable names) and the AI arguments
+export function renderPowerRequest(
+  template: RequestTemplate,
+  args: Record<string, unknown>,
+  variables: Record<string, unknown>,
+): RenderedRequest {
+  // Variables and arguments are substituted in a single pass; on repeated names the system variable wins
+  const values = { ...args, ...variables };
+
+  // In the URL every value is encoded, so none can add path segments or query parameters; lists and objects become JSON
+  const encodedValues = Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [key, encodeURIComponent(typeof value === 'string' ? value : JSON.stringify(value))]),
+  );
+  const url = dropUnfilledQueryParams(renderTemplateString(template.url || '', encodedValues));
+
+  const body = template.body && renderTemplate(template.body, values) as Record<string, unknown>;
+  const headers = template.headers && renderHeaderTemplate(template.headers, values);
+
+  return { url, method: template.method, headers, body };
+}
+
+// Origin (scheme, host and port) of a stored URL, or null when a placeholder can change it
+export function fixedOrigin(url: string | null): string | null {
+  const origin = /^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i.exec(url || '')?.[0];
+  if (!origin || origin.includes('{')) return null;
+  try {
+    return new URL(origin).origin;
+  } catch {
+    return null;
+  }
+}
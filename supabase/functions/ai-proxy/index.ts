@@ -0,0 +1,336 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { isWorkspaceMember } from "../_shared/auth.ts";
+import { powersToTools, resolveModel, toGeminiTools, ToolDefinition } from "../_shared/llm.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const OPENAI_API_BASE_URL = 'https://api.openai.com/v1';
+const GEMINI_API_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+const GEMINI_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+const OPENAI_TTS_MODEL = 'tts-1';
+
+// Visitor calls per minute (authorize_ai_request, migration 0028). A voice turn makes one chat call per
+// tool step plus one speech call per sentence, so the conversation limit leaves room for normal use.
+const MAX_REQUESTS_PER_CONVERSATION = 40;
+const MAX_REQUESTS_PER_IP = 80;
+
+interface AssistantSettings {
+  ai_model: string | null;
+  voice_model: string | null;
+  openai_api_key: string | null;
+  openai_tts_voice: string | null;
+  gemini_api_key: string | null;
+  gemini_tts_voice: string | null;
+  llm_base_url: string | null;
+  llm_model_name: string | null;
+  llm_api_key: string | null;
+}
+
+interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+// One row of the usage_events table (migration 0024)
+interface UsageEvent {
+  kind: 'chat' | 'speech';
+  provider: string;
+  model: string;
+  prompt_tokens?: number | null;
+  completion_tokens?: number | null;
+  characters?: number | null;
+}
+
+type UsageRecorder = (event: UsageEvent) => void;
+
+// OpenAI reports `usage` and Gemini `usageMetadata`; in streams they arrive in the last chunk(s)
+interface ProviderUsagePayload {
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+}
+
+const extractUsage = (data: ProviderUsagePayload | null): TokenUsage | null => {
+  if (data?.usage) {
+    return { prompt_tokens: data.usage.prompt_tokens ?? 0, completion_tokens: data.usage.completion_tokens ?? 0 };
+  }
+  if (data?.usageMetadata) {
+    return { prompt_tokens: data.usageMetadata.promptTokenCount ?? 0, completion_tokens: data.usageMetadata.candidatesTokenCount ?? 0 };
+  }
+  return null;
+};
+
+const usageFromSseLine = (line: string) => {
+  if (!line.startsWith('data:')) return null;
+  const data = line.slice(5).trim();
+  if (!data || data === '[DONE]') return null;
+  try {
+    return extractUsage(JSON.parse(data));
+  } catch {
+    return null;
+  }
+};
+
+const readStreamUsage = async (stream: ReadableStream<Uint8Array>) => {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let usage: TokenUsage | null = null;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) usage = usageFromSseLine(line) ?? usage;
+  }
+  return usageFromSseLine(buffer) ?? usage;
+};
+
+// Keeps the function alive for work that finishes after the response was returned (usage logging)
+const runInBackground = (task: Promise<unknown>) => {
+  const runtime = (globalThis as { EdgeRuntime?: { waitUntil: (promise: Promise<unknown>) => void } }).EdgeRuntime;
+  const guarded = task.catch((error) => console.error('[AI-Proxy] Background task failed:', error));
+  runtime?.waitUntil(guarded);
+};
+
+const joinUrl = (baseUrl: string, path: string) => `${baseUrl.replace(/\/+$/, '')}/${path}`;
+
+// Errors use the same shape as the providers ({ error: { message } }) so the client parses them the same way
+const errorResponse = (status: number, message: string) =>
+  new Response(JSON.stringify({ error: { message } }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Passes the provider response through untouched (including SSE streams), adding only the CORS headers
+const relay = (response: Response, contentType?: string) =>
+  new Response(response.body, {
+    status: response.status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': contentType || response.headers.get('Content-Type') || 'application/json',
+    },
+  });
+
+// Relays the provider response while reading the token usage from a copy of it.
+// Calls without usage information (e.g. some self-hosted servers) are still recorded, with null tokens.
+const relayWithUsage = (response: Response, stream: boolean, onUsage: (usage: TokenUsage | null) => void) => {
+  if (!response.ok || !response.body) return relay(response);
+  if (stream) {
+    const [forClient, forUsage] = response.body.tee();
+    runInBackground(readStreamUsage(forUsage).then(onUsage));
+    return relay(new Response(forClient, { status: response.status, headers: response.headers }));
+  }
+  runInBackground(response.clone().json().then((data) => onUsage(extractUsage(data))));
+  return relay(response);
+};
+
+const postJson = (url: string, headers: Record<string, string>, body: unknown) =>
+  fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+// Only the conversation fields come from the browser; model and key always come from the stored settings.
+// For visitors, powerTools holds the workspace's powers: the browser only decides whether the call offers
+// tools (the last step of the tool loop goes without them). Members (admin screens) send their own tools.
+const chat = async (
+  settings: AssistantSettings,
+  body: Record<string, unknown>,
+  stream: boolean,
+  recordUsage: UsageRecorder,
+  powerTools: ToolDefinition[] | null,
+) => {
+  const { provider, model } = resolveModel(settings.ai_model || 'gpt-4o-mini');
+  const offerPowers = !!body.tools && !!powerTools?.length;
+
+  if (provider === 'gemini') {
+    if (!settings.gemini_api_key) {
+      return errorResponse(400, 'Chave API Gemini não configurada para o modelo escolhido.');
+    }
+    const method = stream ? 'streamGenerateContent?alt=sse' : 'generateContent';
+    const { systemInstruction, contents, tools, toolConfig } = body;
+    const toolFields = powerTools ? (offerPowers ? toGeminiTools(powerTools) : {}) : { tools, toolConfig };
+    const response = await postJson(
+      `${GEMINI_API_BASE_URL}/models/${model}:${method}`,
+      { 'x-goog-api-key': settings.gemini_api_key },
+      { systemInstruction, contents, ...toolFields },
+    );
+    return relayWithUsage(response, stream, (usage) => recordUsage({ kind: 'chat', provider, model, ...usage }));
+  }
+
+  const isCustom = provider === 'custom';
+  if (isCustom && (!settings.llm_base_url || !settings.llm_model_name)) {
+    return errorResponse(400, 'URL base e nome do modelo do servidor próprio não configurados.');
+  }
+  const apiKey = isCustom ? settings.llm_api_key : settings.openai_api_key;
+  if (!isCustom && !apiKey) {
+    return errorResponse(400, 'Chave API OpenAI não configurada para o modelo escolhido.');
+  }
+
+  const { messages, tools, tool_choice } = body;
+  const toolFields = powerTools ? (offerPowers ? { tools: powerTools, tool_choice: 'auto' } : {}) : { tools, tool_choice };
+  const requestModel = isCustom ? settings.llm_model_name ?? '' : model;
+  const response = await postJson(
+    isCustom ? joinUrl(settings.llm_base_url ?? '', 'chat/completions') : `${OPENAI_API_BASE_URL}/chat/completions`,
+    // Self-hosted servers usually don't need a key
+    apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+    {
+      model: requestModel,
+      messages,
+      ...toolFields,
+      stream: stream || undefined,
+      // Token usage for the messages and usage_events tables; not every self-hosted server accepts stream_options
+      stream_options: stream && !isCustom ? { include_usage: true } : undefined,
+    },
+  );
+  return relayWithUsage(response, stream, (usage) => recordUsage({ kind: 'chat', provider, model: requestModel, ...usage }));
+};
+
+const speech = async (settings: AssistantSettings, text: string, recordUsage: UsageRecorder) => {
+  if (!text) {
+    return errorResponse(400, 'Text is required for speech synthesis.');
+  }
+
+  if (settings.voice_model === 'gemini-tts') {
+    if (!settings.gemini_api_key) {
+      return errorResponse(400, 'Chave API Gemini não configurada para o modelo de voz.');
+    }
+    const response = await postJson(
+      `${GEMINI_API_BASE_URL}/models/${GEMINI_TTS_MODEL}:generateContent`,
+      { 'x-goog-api-key': settings.gemini_api_key },
+      {
+        contents: [{ parts: [{ text }] }],
+        generationConfig: {
+          responseModalities: ['AUDIO'],
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.gemini_tts_voice || 'Kore' } },
+          },
+        },
+      },
+    );
+    return relayWithUsage(response, false, (usage) =>
+      recordUsage({ kind: 'speech', provider: 'gemini', model: GEMINI_TTS_MODEL, characters: text.length, ...usage }));
+  }
+
+  if (settings.voice_model === 'openai-tts') {
+    if (!settings.openai_api_key) {
+      return errorResponse(400, 'Chave API OpenAI não configurada para o modelo de voz.');
+    }
+    const response = await postJson(
+      `${OPENAI_API_BASE_URL}/audio/speech`,
+      { Authorization: `Bearer ${settings.openai_api_key}` },
+      { model: OPENAI_TTS_MODEL, voice: settings.openai_tts_voice || 'alloy', input: text },
+    );
+    if (response.ok) {
+      recordUsage({ kind: 'speech', provider: 'openai', model: OPENAI_TTS_MODEL, characters: text.length });
+    }
+    // supabase.functions.invoke only returns a Blob for application/octet-stream
+    return relay(response, response.ok ? 'application/octet-stream' : undefined);
+  }
+
+  return errorResponse(400, 'O modelo de voz configurado não usa síntese no servidor.');
+};
+
+// The conversation id was already checked against the workspace by authorize_ai_request
+const insertUsageEvent = async (
+  supabaseAdmin: SupabaseClient,
+  workspaceId: string,
+  conversationId: string | null,
+  event: UsageEvent,
+) => {
+  const { error } = await supabaseAdmin
+    .from('usage_events')
+    .insert({ ...event, workspace_id: workspaceId, conversation_id: conversationId });
+  if (error) console.error('[AI-Proxy] Failed to record usage:', error);
+};
+
+// Same header priority as get-client-ip; x-forwarded-for uses the last hop, added by the platform
+const clientIp = (req: Request) =>
+  req.headers.get('cf-connecting-ip')
+  || req.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+  || req.headers.get('x-real-ip')
+  || 'unknown';
+
+// Visitors (the public assistant page) need an active conversation of the workspace and are rate limited;
+// logged-in members of the workspace (admin screens) may call without one. Returns an error response or null.
+const authorize = async (req: Request, supabaseAdmin: SupabaseClient, workspaceId: string, conversationId: string | null) => {
+  if (!conversationId) {
+    return await isWorkspaceMember(req, supabaseAdmin, workspaceId)
+      ? null
+      : errorResponse(401, 'conversation_id de uma conversa ativa é obrigatório.');
+  }
+  const { data: status, error } = await supabaseAdmin.rpc('authorize_ai_request', {
+    p_workspace_id: workspaceId,
+    p_conversation_id: conversationId,
+    p_ip: clientIp(req),
+    p_max_per_conversation: MAX_REQUESTS_PER_CONVERSATION,
+    p_max_per_ip: MAX_REQUESTS_PER_IP,
+  });
+  if (error) throw error;
+  if (status === 'conversation_not_active') return errorResponse(403, 'A conversa não está ativa.');
+  if (status === 'rate_limited') return errorResponse(429, 'Muitas chamadas em pouco tempo. Aguarde um instante.');
+  return null;
+};
+
+const loadPowerTools = async (supabaseAdmin: SupabaseClient, workspaceId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from('powers')
+    .select('name, description, parameters_schema')
+    .eq('workspace_id', workspaceId);
+  if (error) throw error;
+  return powersToTools(data || []);
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, workspace_id, conversation_id, stream, body, text } = await req.json();
+
+    if (!workspace_id) {
+      return errorResponse(400, 'workspace_id is required in the payload.');
+    }
+
+    // The service role reads the keys, which are no longer readable by visitors
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+    const unauthorized = await authorize(req, supabaseAdmin, workspace_id, conversation_id || null);
+    if (unauthorized) return unauthorized;
+    const { data: settings, error: settingsError } = await supabaseAdmin
+      .from('settings')
+      .select('ai_model, voice_model, openai_api_key, openai_tts_voice, gemini_api_key, gemini_tts_voice, llm_base_url, llm_model_name, llm_api_key')
+      .eq('workspace_id', workspace_id)
+      .maybeSingle();
+
+    if (settingsError) throw settingsError;
+    if (!settings) {
+      return errorResponse(404, 'Configurações do assistente não encontradas.');
+    }
+
+    console.log(`[AI-Proxy] ${action} for workspace ${workspace_id}`);
+    const recordUsage: UsageRecorder = (event) =>
+      runInBackground(insertUsageEvent(supabaseAdmin, workspace_id, conversation_id || null, event));
+    if (action === 'chat') {
+      const powerTools = conversation_id ? await loadPowerTools(supabaseAdmin, workspace_id) : null;
+      return await chat(settings as AssistantSettings, body || {}, !!stream, recordUsage, powerTools);
+    }
+    if (action === 'speech') return await speech(settings as AssistantSettings, text, recordUsage);
+    return errorResponse(400, `Unknown action: ${action}`);
+  } catch (error) {
+    console.error('[AI-Proxy] Edge Function Error:', error);
+    const isJsonError = error instanceof SyntaxError;
+    const status = isJsonError ? 400 : 500;
+    const message = isJsonError ? "Invalid JSON payload received from client." : error.message;
+
+    return errorResponse(status, message);
+  }
+});
@@ -0,0 +1,346 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { fixedOrigin, RenderedRequest, renderPowerRequest } from "../_shared/template.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface ApiKey {
+  id: string;
+  workspace_id: string;
+  secret: string | null;
+  auth_scheme: 'bearer' | 'header' | 'query' | 'basic';
+  auth_param: string | null;
+}
+
+interface ProxyPayload {
+  url?: string;
+  method?: string;
+  headers?: Record<string, string> | null;
+  body?: Record<string, unknown> | null;
+  // Saved power or system power: the request is rebuilt here from its template, the system variables
+  // and the arguments, and logged in the power_executions table
+  power_id?: string;
+  system_power_id?: string;
+  variables?: Record<string, unknown> | null;
+  arguments?: Record<string, unknown> | null;
+  conversation_id?: string | null;
+  // Only honoured for 'rerun' by a member of the power's workspace
+  source?: 'assistant' | 'system' | 'rerun';
+  api_key_id?: string | null;
+}
+
+// Row identity of a logged execution, always taken from the stored power, never from the payload
+interface ExecutionTarget {
+  workspace_id: string;
+  power_id: string | null;
+  system_power_id: string | null;
+  source: 'assistant' | 'system' | 'rerun';
+}
+
+interface ResolvedRequest {
+  request: RenderedRequest;
+  apiKey: ApiKey | null;
+  // Null for requests sent as received (admin tests), which are not logged
+  execution: ExecutionTarget | null;
+}
+
+interface ExecutionResult {
+  status_code: number | null;
+  duration_ms: number;
+  response: string | null;
+  error: string | null;
+}
+
+const MAX_LOGGED_RESPONSE_LENGTH = 4000;
+const SENSITIVE_QUERY_PARAM = /key|token|secret|password|passwd|signature|auth/i;
+
+// Runtime services, injected by index.ts so the handler can also run outside Deno (src/lib/proxyApi.test.ts)
+export interface ProxyDependencies {
+  createAdminClient: () => SupabaseClient;
+  isWorkspaceMember: (req: Request, supabaseAdmin: SupabaseClient, workspaceId: string) => Promise<boolean>;
+}
+
+class ProxyError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+const loadApiKey = async (supabaseAdmin: SupabaseClient, id: string): Promise<ApiKey> => {
+  const { data, error } = await supabaseAdmin
+    .from('api_keys')
+    .select('id, workspace_id, secret, auth_scheme, auth_param')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new ProxyError('API key not found.', 404);
+  if (!data.secret) throw new ProxyError('API key has no secret configured.', 400);
+
+  // Shown as "último uso" on the API keys page; a failure here must not block the request
+  const { error: touchError } = await supabaseAdmin
+    .from('api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', id);
+  if (touchError) console.warn(`[Proxy-API] Could not update last_used_at for API key ${id}:`, touchError);
+
+  return data;
+};
+
+// Only the output variables of the workspace's enabled system powers are accepted from the browser; any other
+// name could fill an argument placeholder with a value the AI never produced
+const loadSystemVariables = async (supabaseAdmin: SupabaseClient, workspaceId: string, variables: Record<string, unknown> | null | undefined) => {
+  if (!variables) return {};
+  const { data, error } = await supabaseAdmin
+    .from('system_powers')
+    .select('output_variable_name')
+    .eq('workspace_id', workspaceId)
+    .eq('enabled', true);
+  if (error) throw error;
+  const names = new Set((data || []).map((power) => power.output_variable_name));
+  return Object.fromEntries(Object.entries(variables).filter(([name]) => names.has(name)));
+};
+
+// Saved power (used by the assistant, possibly an anonymous visitor, and by re-runs): only the arguments and
+// the system variables come from the browser. Method, URL, headers and body come from the stored template,
+// and the key is only injected when the template fixes the origin, so no argument can redirect the secret.
+const resolvePowerRequest = async (req: Request, supabaseAdmin: SupabaseClient, deps: ProxyDependencies, payload: ProxyPayload): Promise<ResolvedRequest> => {
+  const { data: power, error } = await supabaseAdmin
+    .from('powers')
+    .select('workspace_id, method, url, headers, body, api_key_id')
+    .eq('id', payload.power_id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!power) throw new ProxyError('Power not found.', 404);
+  if (!power.url) throw new ProxyError('Power has no URL configured.', 400);
+
+  const variables = await loadSystemVariables(supabaseAdmin, power.workspace_id, payload.variables);
+  const request = renderPowerRequest(power, payload.arguments || {}, variables);
+  // Re-runs come from the admin "Execuções" tab; anyone else is logged as the assistant
+  const isRerun = payload.source === 'rerun' && await deps.isWorkspaceMember(req, supabaseAdmin, power.workspace_id);
+  const execution: ExecutionTarget = {
+    workspace_id: power.workspace_id,
+    power_id: payload.power_id!,
+    system_power_id: null,
+    source: isRerun ? 'rerun' : 'assistant',
+  };
+  if (!power.api_key_id) return { request, apiKey: null, execution };
+
+  const origin = fixedOrigin(power.url);
+  if (!origin || new URL(request.url).origin !== origin) {
+    throw new ProxyError("The power's URL must have a fixed host to use an API key; the key was not sent.", 403);
+  }
+  const apiKey = await loadApiKey(supabaseAdmin, power.api_key_id);
+  if (apiKey.workspace_id !== power.workspace_id) {
+    throw new ProxyError('API key belongs to another workspace.', 403);
+  }
+  return { request, apiKey, execution };
+};
+
+// System powers (run by SystemContext on page load) are rebuilt the same way from the stored definition,
+// with the variables produced by the previous system powers. They never carry an API key.
+const resolveSystemPowerRequest = async (supabaseAdmin: SupabaseClient, payload: ProxyPayload): Promise<ResolvedRequest> => {
+  const { data: power, error } = await supabaseAdmin
+    .from('system_powers')
+    .select('workspace_id, method, url, headers, body')
+    .eq('id', payload.system_power_id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!power) throw new ProxyError('System power not found.', 404);
+  if (!power.url) throw new ProxyError('System power has no URL configured.', 400);
+
+  const variables = await loadSystemVariables(supabaseAdmin, power.workspace_id, payload.variables);
+  const request = renderPowerRequest({ ...power, headers: power.headers || {}, body: power.body || {} }, {}, variables);
+  return {
+    request,
+    apiKey: null,
+    execution: { workspace_id: power.workspace_id, power_id: null, system_power_id: payload.system_power_id!, source: 'system' },
+  };
+};
+
+// Resolves the request to send, which key (if any) to inject and how to log it:
+// - power_id / system_power_id: rebuilt from the stored definition and logged.
+// - otherwise the request is sent as received and not logged. A key can then only be referenced by
+//   api_key_id, used by the admin "Testar Poder" button before the power is saved, and requires a
+//   logged-in member of its workspace.
+const resolveRequest = async (req: Request, supabaseAdmin: SupabaseClient, deps: ProxyDependencies, payload: ProxyPayload): Promise<ResolvedRequest> => {
+  if (payload.power_id) return resolvePowerRequest(req, supabaseAdmin, deps, payload);
+  if (payload.system_power_id) return resolveSystemPowerRequest(supabaseAdmin, payload);
+
+  if (!payload.url || !payload.method) {
+    throw new ProxyError('URL and method are required in the payload.', 400);
+  }
+  const request = { url: payload.url, method: payload.method, headers: payload.headers ?? null, body: payload.body ?? null };
+  if (!payload.api_key_id) return { request, apiKey: null, execution: null };
+
+  const apiKey = await loadApiKey(supabaseAdmin, payload.api_key_id);
+  if (!await deps.isWorkspaceMember(req, supabaseAdmin, apiKey.workspace_id)) {
+    throw new ProxyError('Authentication as a member of the API key workspace is required.', 403);
+  }
+  return { request, apiKey, execution: null };
+};
+
+const applyApiKey = (url: URL, headers: Headers, apiKey: ApiKey) => {
+  const secret = apiKey.secret!;
+  switch (apiKey.auth_scheme) {
+    case 'header':
+      headers.set(apiKey.auth_param || 'X-API-Key', secret);
+      break;
+    case 'query':
+      url.searchParams.set(apiKey.auth_param || 'api_key', secret);
+      break;
+    case 'basic':
+      // secret is stored as "user:password"
+      headers.set('Authorization', `Basic ${btoa(secret)}`);
+      break;
+    default:
+      headers.set('Authorization', `Bearer ${secret}`);
+  }
+};
+
+// Secrets placed in the URL by the power itself (e.g. ?token=...) must not reach the log table
+const maskUrl = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    if (parsed.password) parsed.password = '***';
+    for (const name of [...parsed.searchParams.keys()]) {
+      if (SENSITIVE_QUERY_PARAM.test(name)) parsed.searchParams.set(name, '***');
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+};
+
+// Keeps the function alive for work that finishes after the response was returned (execution logging)
+const runInBackground = (task: Promise<unknown>) => {
+  const runtime = (globalThis as { EdgeRuntime?: { waitUntil: (promise: Promise<unknown>) => void } }).EdgeRuntime;
+  const guarded = task.catch((error) => console.error('[Proxy-API] Background task failed:', error));
+  runtime?.waitUntil(guarded);
+};
+
+// Only requests rebuilt from a stored power are logged, with the identity resolved from it. The conversation
+// id from the browser is only kept when it belongs to the power's workspace.
+const recordExecution = async (
+  supabaseAdmin: SupabaseClient,
+  target: ExecutionTarget,
+  payload: ProxyPayload,
+  request: RenderedRequest,
+  result: ExecutionResult,
+) => {
+  let conversationId: string | null = null;
+  if (payload.conversation_id) {
+    const { data } = await supabaseAdmin
+      .from('conversations')
+      .select('id')
+      .eq('id', payload.conversation_id)
+      .eq('workspace_id', target.workspace_id)
+      .maybeSingle();
+    conversationId = data?.id ?? null;
+  }
+
+  const { error } = await supabaseAdmin.from('power_executions').insert({
+    ...target,
+    conversation_id: conversationId,
+    arguments: target.power_id ? payload.arguments ?? null : null,
+    method: request.method,
+    url: maskUrl(request.url),
+    ...result,
+    response: result.response?.slice(0, MAX_LOGGED_RESPONSE_LENGTH) ?? null,
+  });
+  if (error) console.error('[Proxy-API] Failed to record execution:', error);
+};
+
+export const createProxyHandler = (deps: ProxyDependencies) => async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const startedAt = Date.now();
+  let logExecution: ((result: Omit<ExecutionResult, 'duration_ms'>) => void) | null = null;
+
+  try {
+    const payload: ProxyPayload = await req.json();
+
+    const supabaseAdmin = deps.createAdminClient();
+    const { request, apiKey, execution } = await resolveRequest(req, supabaseAdmin, deps, payload);
+    const { url, method, headers, body } = request;
+    if (execution) {
+      logExecution = (result) =>
+        runInBackground(recordExecution(supabaseAdmin, execution, payload, request, { ...result, duration_ms: Date.now() - startedAt }));
+    }
+
+    const outgoingHeaders = new Headers(headers || {});
+    const outgoingUrl = new URL(url);
+
+    if (apiKey) {
+      applyApiKey(outgoingUrl, outgoingHeaders, apiKey);
+      console.log(`[Proxy-API] Injecting API key ${apiKey.id} (${apiKey.auth_scheme})`);
+    }
+
+    // Add a standard User-Agent header to appear as a browser
+    if (!outgoingHeaders.has('User-Agent')) {
+      outgoingHeaders.set('User-Agent', 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36');
+    }
+
+    // For GET requests, some servers reject a Content-Type header. Let's remove it.
+    if (method.toUpperCase() === 'GET') {
+      outgoingHeaders.delete('Content-Type');
+    }
+
+    const fetchOptions = {
+      method,
+      headers: outgoingHeaders,
+      // Ensure body is only sent for appropriate methods
+      body: (method.toUpperCase() !== 'GET' && body) ? JSON.stringify(body) : undefined,
+    };
+
+    // The log uses the URL before the key is injected, masked like the execution log
+    console.log(`[Proxy-API] Fetching URL: ${maskUrl(url)} with method: ${method}`);
+    const response = await fetch(outgoingUrl, fetchOptions);
+
+    const responseText = await response.text();
+    logExecution?.({
+      status_code: response.status,
+      response: responseText,
+      error: response.ok ? null : response.statusText || `HTTP ${response.status}`,
+    });
+
+    let responseData;
+    try {
+      responseData = JSON.parse(responseText);
+    } catch (e) {
+      console.warn(`[Proxy-API] Could not parse response as JSON for ${maskUrl(url)}. Treating as plain text. Error: ${e.message}`);
+      responseData = responseText;
+    }
+
+    return new Response(
+      JSON.stringify({
+        status: response.status,
+        statusText: response.statusText,
+        ok: response.ok,
+        data: responseData,
+        headers: Object.fromEntries(response.headers.entries()),
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('[Proxy-API] Edge Function Error:', error);
+    const isJsonError = error instanceof SyntaxError;
+    const status = error instanceof ProxyError ? error.status : isJsonError ? 400 : 500;
+    const message = isJsonError ? "Invalid JSON payload received from client." : error.message;
+    logExecution?.({ status_code: null, response: null, error: message });
+
+    return new Response(
+      JSON.stringify({ error: message, stack: error.stack }),
+      {
+        status: status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
@@ -0,0 +1,2 @@
+ALTER TABLE public.settings
+ADD COLUMN max_tool_steps INTEGER DEFAULT 5;
@@ -0,0 +1,2 @@
+ALTER TABLE public.settings
+ADD COLUMN IF NOT EXISTS gemini_tts_voice TEXT DEFAULT 'Kore';
@@ -0,0 +1,5 @@
+-- Servidor próprio compatível com a API da OpenAI (Ollama, vLLM, LM Studio), usado quando ai_model = 'openai-compatible'
+ALTER TABLE public.settings
+ADD COLUMN IF NOT EXISTS llm_base_url TEXT,
+ADD COLUMN IF NOT EXISTS llm_model_name TEXT,
+ADD COLUMN IF NOT EXISTS llm_api_key TEXT;
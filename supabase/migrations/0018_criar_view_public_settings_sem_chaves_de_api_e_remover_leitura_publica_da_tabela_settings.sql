@@ -0,0 +1,22 @@
+-- As chaves de API não podem ser lidas por visitantes. A página pública passa a ler esta view,
+-- sem as colunas secretas, e as chamadas à IA saem pela Edge Function ai-proxy (service role).
+DROP POLICY IF EXISTS "Public read access to settings" ON public.settings;
+
+-- A view roda com as permissões do dono, por isso dispensa a leitura pública na tabela
+CREATE OR REPLACE VIEW public.public_settings AS
+SELECT
+  workspace_id,
+  system_prompt,
+  assistant_prompt,
+  ai_model,
+  voice_model,
+  conversation_memory_length,
+  max_tool_steps,
+  activation_phrase,
+  welcome_message,
+  -- Indica se a voz escolhida pode ser sintetizada, sem expor a chave
+  COALESCE(openai_api_key, '') <> '' AS has_openai_api_key,
+  COALESCE(gemini_api_key, '') <> '' AS has_gemini_api_key
+FROM public.settings;
+
+GRANT SELECT ON public.public_settings TO anon, authenticated;
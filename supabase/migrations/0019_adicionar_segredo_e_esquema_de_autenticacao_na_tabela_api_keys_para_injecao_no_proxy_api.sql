@@ -0,0 +1,12 @@
+-- O proxy-api injeta a chave referenciada por powers.api_key_id no servidor, conforme o esquema:
+--   bearer: Authorization: Bearer <secret>
+--   header: <auth_param>: <secret> (ex.: X-API-Key)
+--   query:  ?<auth_param>=<secret> (ex.: api_key)
+--   basic:  Authorization: Basic base64(<secret>), com o segredo no formato usuario:senha
+ALTER TABLE public.api_keys
+ADD COLUMN IF NOT EXISTS secret TEXT,
+ADD COLUMN IF NOT EXISTS auth_scheme TEXT NOT NULL DEFAULT 'bearer',
+ADD COLUMN IF NOT EXISTS auth_param TEXT;
+
+ALTER TABLE public.api_keys
+ADD CONSTRAINT api_keys_auth_scheme_check CHECK (auth_scheme IN ('bearer', 'header', 'query', 'basic'));
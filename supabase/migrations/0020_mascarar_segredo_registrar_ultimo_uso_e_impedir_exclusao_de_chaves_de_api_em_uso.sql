@@ -0,0 +1,34 @@
+-- Página /admin/api-keys: o segredo nunca volta para o navegador, apenas uma dica mascarada
+ALTER TABLE public.api_keys
+ADD COLUMN IF NOT EXISTS secret_hint TEXT,
+ADD COLUMN IF NOT EXISTS last_used_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.set_api_key_secret_hint()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Mostra só os 4 últimos caracteres, e nenhum quando o segredo é curto demais
+  NEW.secret_hint := CASE
+    WHEN COALESCE(NEW.secret, '') = '' THEN NULL
+    WHEN length(NEW.secret) > 8 THEN '••••' || right(NEW.secret, 4)
+    ELSE '••••'
+  END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS api_keys_secret_hint ON public.api_keys;
+CREATE TRIGGER api_keys_secret_hint
+BEFORE INSERT OR UPDATE OF secret ON public.api_keys
+FOR EACH ROW EXECUTE FUNCTION public.set_api_key_secret_hint();
+
+UPDATE public.api_keys SET secret = secret WHERE secret IS NOT NULL;
+
+-- O segredo pode ser gravado (insert/update), mas não lido; só o proxy-api (service role) o lê
+REVOKE SELECT ON public.api_keys FROM anon, authenticated;
+GRANT SELECT (id, workspace_id, label, provider, auth_scheme, auth_param, secret_hint, last_used_at)
+ON public.api_keys TO authenticated;
+
+-- Uma chave referenciada por poderes não pode ser excluída (antes a referência virava NULL em silêncio)
+ALTER TABLE public.powers
+DROP CONSTRAINT IF EXISTS powers_api_key_id_fkey,
+ADD CONSTRAINT powers_api_key_id_fkey FOREIGN KEY (api_key_id) REFERENCES public.api_keys(id) ON DELETE RESTRICT;
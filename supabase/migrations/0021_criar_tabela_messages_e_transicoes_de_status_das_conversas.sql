@@ -0,0 +1,130 @@
+-- Cada mensagem da conversa (usuário, IA, chamadas de poderes e seus resultados) fica gravada,
+-- em vez de existir só no estado do VoiceAssistant
+CREATE TABLE public.messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'tool', 'system')),
+  content TEXT,
+  tool_calls JSONB,
+  tool_call_id TEXT,
+  name TEXT, -- Nome do poder, nas mensagens "tool"
+  latency_ms INTEGER, -- Tempo de resposta da IA (assistant) ou de execução do poder (tool)
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  interrupted BOOLEAN NOT NULL DEFAULT FALSE, -- Resposta cortada pelo usuário (barge-in)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX messages_conversation_id_created_at_idx ON public.messages (conversation_id, created_at);
+
+-- Enable RLS (REQUIRED for security)
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+-- Membros do workspace leem as mensagens; a gravação passa pelas funções abaixo
+CREATE POLICY "Members can select messages in their workspaces" ON public.messages
+FOR SELECT TO authenticated
+USING (EXISTS (
+  SELECT 1
+  FROM public.workspace_members wm
+  WHERE wm.workspace_id = messages.workspace_id AND wm.user_id = auth.uid()
+));
+
+-- Status da conversa: active -> ended (usuário encerrou) ou abandoned (saiu da página / ficou inativa)
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS ended_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.conversations
+ADD CONSTRAINT conversations_status_check CHECK (status IN ('active', 'ended', 'abandoned'));
+
+-- O assistente roda na página pública, inclusive para visitantes. As funções só aceitam conversas ativas,
+-- e o workspace da mensagem vem da conversa, não do navegador.
+CREATE OR REPLACE FUNCTION public.append_message(
+  p_conversation_id UUID,
+  p_role TEXT,
+  p_content TEXT,
+  p_tool_calls JSONB DEFAULT NULL,
+  p_tool_call_id TEXT DEFAULT NULL,
+  p_name TEXT DEFAULT NULL,
+  p_latency_ms INTEGER DEFAULT NULL,
+  p_prompt_tokens INTEGER DEFAULT NULL,
+  p_completion_tokens INTEGER DEFAULT NULL,
+  p_interrupted BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID AS $$
+DECLARE
+  v_workspace_id UUID;
+  v_message_id UUID;
+BEGIN
+  SELECT workspace_id INTO v_workspace_id
+  FROM public.conversations
+  WHERE id = p_conversation_id AND status = 'active';
+
+  IF v_workspace_id IS NULL THEN
+    RAISE EXCEPTION 'Conversation % is not active', p_conversation_id;
+  END IF;
+
+  INSERT INTO public.messages (
+    conversation_id, workspace_id, role, content, tool_calls, tool_call_id, name,
+    latency_ms, prompt_tokens, completion_tokens, interrupted
+  ) VALUES (
+    p_conversation_id, v_workspace_id, p_role, p_content, p_tool_calls, p_tool_call_id, p_name,
+    p_latency_ms, p_prompt_tokens, p_completion_tokens, COALESCE(p_interrupted, FALSE)
+  )
+  RETURNING id INTO v_message_id;
+
+  RETURN v_message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Barge-in depois que a resposta já foi gravada: guarda só o trecho que chegou a ser falado
+CREATE OR REPLACE FUNCTION public.mark_message_interrupted(p_message_id UUID, p_content TEXT)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.messages m
+  SET content = p_content, interrupted = TRUE
+  FROM public.conversations c
+  WHERE m.id = p_message_id
+    AND m.role = 'assistant'
+    AND c.id = m.conversation_id
+    AND c.status = 'active';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.end_conversation(p_conversation_id UUID, p_status TEXT DEFAULT 'ended')
+RETURNS VOID AS $$
+BEGIN
+  IF p_status NOT IN ('ended', 'abandoned') THEN
+    RAISE EXCEPTION 'Invalid final status: %', p_status;
+  END IF;
+
+  UPDATE public.conversations
+  SET status = p_status, ended_at = NOW()
+  WHERE id = p_conversation_id AND status = 'active';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Conversas cujo navegador fechou sem avisar. Para rodar periodicamente, agende com pg_cron, ex.:
+-- SELECT cron.schedule('abandon-stale-conversations', '*/15 * * * *', $$SELECT public.abandon_stale_conversations()$$);
+CREATE OR REPLACE FUNCTION public.abandon_stale_conversations(p_idle INTERVAL DEFAULT INTERVAL '30 minutes')
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.conversations c
+  SET status = 'abandoned', ended_at = NOW()
+  WHERE c.status = 'active'
+    AND COALESCE(
+      (SELECT MAX(m.created_at) FROM public.messages m WHERE m.conversation_id = c.id),
+      c.created_at
+    ) < NOW() - p_idle;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.append_message(UUID, TEXT, TEXT, JSONB, TEXT, TEXT, INTEGER, INTEGER, INTEGER, BOOLEAN) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_message_interrupted(UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.end_conversation(UUID, TEXT) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.abandon_stale_conversations(INTERVAL) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,3 @@
+-- Monitoramento ao vivo no admin: novas mensagens e mudanças de status chegam pelo Supabase Realtime.
+-- O Realtime aplica o RLS de SELECT, então cada membro só recebe as conversas do seu workspace.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages, public.conversations;
@@ -0,0 +1,81 @@
+-- Atendimento humano: um membro do workspace pausa a IA numa conversa ativa e responde no lugar dela.
+-- Enquanto taken_over_by estiver preenchido, o VoiceAssistant não chama a IA e fala as respostas do atendente.
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS taken_over_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS taken_over_at TIMESTAMP WITH TIME ZONE;
+
+-- Respostas do atendente ficam gravadas como mensagens "assistant" com o autor identificado
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS operator_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Assumir também transfere a conversa de outro atendente do mesmo workspace
+CREATE OR REPLACE FUNCTION public.start_takeover(p_conversation_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.conversations c
+  SET taken_over_by = auth.uid(), taken_over_at = NOW()
+  WHERE c.id = p_conversation_id
+    AND c.status = 'active'
+    AND EXISTS (
+      SELECT 1
+      FROM public.workspace_members wm
+      WHERE wm.workspace_id = c.workspace_id AND wm.user_id = auth.uid()
+    );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conversation % is not active or not accessible', p_conversation_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.end_takeover(p_conversation_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.conversations c
+  SET taken_over_by = NULL, taken_over_at = NULL
+  WHERE c.id = p_conversation_id
+    AND EXISTS (
+      SELECT 1
+      FROM public.workspace_members wm
+      WHERE wm.workspace_id = c.workspace_id AND wm.user_id = auth.uid()
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Só quem assumiu a conversa responde por ela
+CREATE OR REPLACE FUNCTION public.append_operator_message(p_conversation_id UUID, p_content TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_workspace_id UUID;
+  v_message_id UUID;
+BEGIN
+  SELECT workspace_id INTO v_workspace_id
+  FROM public.conversations
+  WHERE id = p_conversation_id AND status = 'active' AND taken_over_by = auth.uid();
+
+  IF v_workspace_id IS NULL THEN
+    RAISE EXCEPTION 'Conversation % is not taken over by the current user', p_conversation_id;
+  END IF;
+
+  INSERT INTO public.messages (conversation_id, workspace_id, role, content, operator_id)
+  VALUES (p_conversation_id, v_workspace_id, 'assistant', p_content, auth.uid())
+  RETURNING id INTO v_message_id;
+
+  RETURN v_message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- O visitante não lê a tabela conversations; ao entrar no canal da conversa ele consulta o estado por aqui
+CREATE OR REPLACE FUNCTION public.conversation_taken_over(p_conversation_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.conversations
+    WHERE id = p_conversation_id AND status = 'active' AND taken_over_by IS NOT NULL
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.start_takeover(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.end_takeover(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.append_operator_message(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.conversation_taken_over(UUID) TO anon, authenticated;
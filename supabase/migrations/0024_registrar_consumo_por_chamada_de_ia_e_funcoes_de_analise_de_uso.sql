@@ -0,0 +1,108 @@
+-- Consumo de cada chamada feita pelo ai-proxy: tokens do chat/completions e caracteres do audio/speech.
+-- Só a Edge Function (service role) grava; membros do workspace leem para o painel de análises.
+CREATE TABLE public.usage_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('chat', 'speech')),
+  provider TEXT NOT NULL, -- openai, gemini ou custom
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  characters INTEGER, -- Texto enviado para síntese de voz
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX usage_events_workspace_id_created_at_idx ON public.usage_events (workspace_id, created_at);
+
+-- Enable RLS (REQUIRED for security)
+ALTER TABLE public.usage_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can select usage events in their workspaces" ON public.usage_events
+FOR SELECT TO authenticated
+USING (EXISTS (
+  SELECT 1
+  FROM public.workspace_members wm
+  WHERE wm.workspace_id = usage_events.workspace_id AND wm.user_id = auth.uid()
+));
+
+-- Resultado de poder com falha: erro do executor ({"error": ...}) ou resposta não-ok do proxy-api ({"ok": false, ...})
+CREATE OR REPLACE FUNCTION public.power_result_failed(p_content TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_result JSONB;
+BEGIN
+  v_result := p_content::jsonb;
+  RETURN jsonb_typeof(v_result) = 'object' AND (v_result ? 'error' OR v_result->>'ok' = 'false');
+EXCEPTION WHEN others THEN
+  RETURN FALSE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- As funções de análise rodam com as permissões de quem chama, então o RLS limita aos workspaces do usuário.
+-- p_timezone agrupa os dias no fuso do navegador (ex.: 'America/Sao_Paulo').
+CREATE OR REPLACE FUNCTION public.analytics_daily(p_workspace_id UUID, p_from TIMESTAMP WITH TIME ZONE, p_timezone TEXT DEFAULT 'UTC')
+RETURNS TABLE (day DATE, conversations BIGINT, prompt_tokens BIGINT, completion_tokens BIGINT, speech_characters BIGINT) AS $$
+  WITH days AS (
+    SELECT generate_series((p_from AT TIME ZONE p_timezone)::date, (NOW() AT TIME ZONE p_timezone)::date, INTERVAL '1 day')::date AS day
+  ),
+  daily_conversations AS (
+    SELECT (created_at AT TIME ZONE p_timezone)::date AS day, COUNT(*) AS conversations
+    FROM public.conversations
+    WHERE workspace_id = p_workspace_id AND created_at >= p_from
+    GROUP BY 1
+  ),
+  daily_usage AS (
+    SELECT
+      (created_at AT TIME ZONE p_timezone)::date AS day,
+      SUM(prompt_tokens) AS prompt_tokens,
+      SUM(completion_tokens) AS completion_tokens,
+      SUM(characters) AS speech_characters
+    FROM public.usage_events
+    WHERE workspace_id = p_workspace_id AND created_at >= p_from
+    GROUP BY 1
+  )
+  SELECT
+    d.day,
+    COALESCE(c.conversations, 0),
+    COALESCE(u.prompt_tokens, 0),
+    COALESCE(u.completion_tokens, 0),
+    COALESCE(u.speech_characters, 0)
+  FROM days d
+  LEFT JOIN daily_conversations c ON c.day = d.day
+  LEFT JOIN daily_usage u ON u.day = d.day
+  ORDER BY d.day;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.analytics_usage_by_model(p_workspace_id UUID, p_from TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (kind TEXT, provider TEXT, model TEXT, calls BIGINT, prompt_tokens BIGINT, completion_tokens BIGINT, characters BIGINT) AS $$
+  SELECT
+    kind,
+    provider,
+    model,
+    COUNT(*),
+    COALESCE(SUM(prompt_tokens), 0),
+    COALESCE(SUM(completion_tokens), 0),
+    COALESCE(SUM(characters), 0)
+  FROM public.usage_events
+  WHERE workspace_id = p_workspace_id AND created_at >= p_from
+  GROUP BY kind, provider, model
+  ORDER BY COUNT(*) DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Chamadas de poderes vêm das mensagens "tool" gravadas na conversa
+CREATE OR REPLACE FUNCTION public.analytics_powers(p_workspace_id UUID, p_from TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (name TEXT, calls BIGINT, errors BIGINT) AS $$
+  SELECT
+    m.name,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE public.power_result_failed(m.content))
+  FROM public.messages m
+  WHERE m.workspace_id = p_workspace_id AND m.role = 'tool' AND m.created_at >= p_from
+  GROUP BY m.name
+  ORDER BY COUNT(*) DESC;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.analytics_daily(UUID, TIMESTAMP WITH TIME ZONE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.analytics_usage_by_model(UUID, TIMESTAMP WITH TIME ZONE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.analytics_powers(UUID, TIMESTAMP WITH TIME ZONE) TO authenticated;
@@ -0,0 +1,33 @@
+-- Cada chamada de poder feita pelo proxy-api fica registrada para inspeção no admin (aba "Execuções").
+-- A URL é gravada com segredos mascarados e a resposta é truncada; só a Edge Function (service role) grava.
+CREATE TABLE public.power_executions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  power_id UUID REFERENCES public.powers(id) ON DELETE CASCADE,
+  system_power_id UUID REFERENCES public.system_powers(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL,
+  source TEXT NOT NULL CHECK (source IN ('assistant', 'system', 'rerun')),
+  arguments JSONB, -- Argumentos enviados pela IA, usados para reexecutar
+  method TEXT NOT NULL,
+  url TEXT NOT NULL,
+  status_code INTEGER, -- Nulo quando a chamada nem chegou a ser feita (ex.: erro de rede ou de validação)
+  duration_ms INTEGER,
+  response TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (power_id IS NOT NULL OR system_power_id IS NOT NULL)
+);
+
+CREATE INDEX power_executions_power_id_created_at_idx ON public.power_executions (power_id, created_at);
+CREATE INDEX power_executions_workspace_id_created_at_idx ON public.power_executions (workspace_id, created_at);
+
+-- Enable RLS (REQUIRED for security)
+ALTER TABLE public.power_executions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can select power executions in their workspaces" ON public.power_executions
+FOR SELECT TO authenticated
+USING (EXISTS (
+  SELECT 1
+  FROM public.workspace_members wm
+  WHERE wm.workspace_id = power_executions.workspace_id AND wm.user_id = auth.uid()
+));
@@ -0,0 +1,5 @@
+-- Transformação aplicada ao resultado do poder antes de voltar para a IA (src/lib/responseTransform.ts):
+-- { "path": "$.itens[*]", "fields": ["nome", "preco"], "template": "{{nome}}: {{preco}}", "max_length": 2000 }
+-- Nulo mantém o comportamento anterior: a resposta completa do proxy-api vai para o modelo.
+ALTER TABLE public.powers
+ADD COLUMN IF NOT EXISTS response_transform JSONB;
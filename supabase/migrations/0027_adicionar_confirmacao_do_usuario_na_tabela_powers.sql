@@ -0,0 +1,4 @@
+-- Poderes com efeitos colaterais (criar pedido, excluir registro) podem exigir um "sim" do usuário:
+-- o VoiceAssistant fala um resumo da ação e só chama o proxy-api depois da confirmação.
+ALTER TABLE public.powers
+ADD COLUMN IF NOT EXISTS requires_confirmation BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,53 @@
+-- O ai-proxy atende a página pública, então cada chamada de visitante precisa de uma conversa ativa do
+-- workspace e passa por limites de frequência por conversa e por IP. Só a Edge Function (service role) grava.
+CREATE TABLE public.ai_requests (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE,
+  ip TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX ai_requests_conversation_id_created_at_idx ON public.ai_requests (conversation_id, created_at);
+CREATE INDEX ai_requests_ip_created_at_idx ON public.ai_requests (ip, created_at);
+CREATE INDEX ai_requests_created_at_idx ON public.ai_requests (created_at);
+
+-- Enable RLS (REQUIRED for security)
+-- Sem políticas: nenhum usuário lê ou grava direto, só a função abaixo
+ALTER TABLE public.ai_requests ENABLE ROW LEVEL SECURITY;
+
+-- Valida a conversa e registra a chamada numa única transação. Devolve 'ok', 'conversation_not_active'
+-- (conversa inexistente, encerrada ou de outro workspace) ou 'rate_limited'.
+CREATE OR REPLACE FUNCTION public.authorize_ai_request(
+  p_workspace_id UUID,
+  p_conversation_id UUID,
+  p_ip TEXT,
+  p_max_per_conversation INTEGER,
+  p_max_per_ip INTEGER,
+  p_window INTERVAL DEFAULT INTERVAL '1 minute'
+)
+RETURNS TEXT AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.conversations
+    WHERE id = p_conversation_id AND workspace_id = p_workspace_id AND status = 'active'
+  ) THEN
+    RETURN 'conversation_not_active';
+  END IF;
+
+  -- Os registros só servem para a janela atual
+  DELETE FROM public.ai_requests WHERE created_at < NOW() - p_window;
+
+  IF (SELECT COUNT(*) FROM public.ai_requests WHERE conversation_id = p_conversation_id) >= p_max_per_conversation
+    OR (SELECT COUNT(*) FROM public.ai_requests WHERE ip = p_ip) >= p_max_per_ip THEN
+    RETURN 'rate_limited';
+  END IF;
+
+  INSERT INTO public.ai_requests (workspace_id, conversation_id, ip)
+  VALUES (p_workspace_id, p_conversation_id, p_ip);
+  RETURN 'ok';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.authorize_ai_request(UUID, UUID, TEXT, INTEGER, INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,17 @@
+-- O canal da conversa no Realtime é público, pois o visitante não tem login, e qualquer um pode publicar nele.
+-- Por isso os eventos de atendimento humano são só um aviso: a página pública confere o estado com
+-- conversation_taken_over (migração 0023) e lê a resposta do atendente por esta função, que só devolve
+-- mensagens escritas por quem assumiu a conversa.
+CREATE OR REPLACE FUNCTION public.operator_message_content(p_conversation_id UUID, p_message_id UUID)
+RETURNS TEXT AS $$
+  SELECT m.content
+  FROM public.messages m
+  JOIN public.conversations c ON c.id = m.conversation_id
+  WHERE m.id = p_message_id
+    AND m.conversation_id = p_conversation_id
+    AND m.operator_id IS NOT NULL
+    AND c.status = 'active'
+    AND c.taken_over_by = m.operator_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.operator_message_content(UUID, UUID) TO anon, authenticated;
@@ -0,0 +1,47 @@
+-- O canal "live-conversations:<workspace_id>" do monitoramento ao vivo passa a ser privado (Realtime Authorization):
+-- só membros do workspace o recebem, já que ele traz os ids e o estado das conversas em andamento.
+CREATE POLICY "Members can receive live conversation states" ON realtime.messages
+FOR SELECT TO authenticated
+USING (
+  realtime.messages.extension = 'broadcast'
+  AND EXISTS (
+    SELECT 1
+    FROM public.workspace_members wm
+    WHERE wm.user_id = auth.uid() AND realtime.topic() = 'live-conversations:' || wm.workspace_id::text
+  )
+);
+
+-- O visitante não tem login para publicar no canal privado; o estado passa por aqui, que confere a conversa
+-- e publica no canal do workspace dela
+CREATE OR REPLACE FUNCTION public.broadcast_assistant_state(p_conversation_id UUID, p_state TEXT, p_powers TEXT[] DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_workspace_id UUID;
+BEGIN
+  IF p_state NOT IN ('idle', 'listening', 'thinking', 'executing_power', 'awaiting_confirmation', 'speaking') THEN
+    RAISE EXCEPTION 'Invalid assistant state: %', p_state;
+  END IF;
+
+  SELECT workspace_id INTO v_workspace_id
+  FROM public.conversations
+  WHERE id = p_conversation_id AND status = 'active';
+
+  IF v_workspace_id IS NULL THEN
+    RAISE EXCEPTION 'Conversation % is not active', p_conversation_id;
+  END IF;
+
+  PERFORM realtime.send(
+    jsonb_strip_nulls(jsonb_build_object(
+      'conversation_id', p_conversation_id,
+      'state', p_state,
+      'powers', to_jsonb(p_powers),
+      'at', NOW()
+    )),
+    'assistant_state',
+    'live-conversations:' || v_workspace_id::text,
+    TRUE
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.broadcast_assistant_state(UUID, TEXT, TEXT[]) TO anon, authenticated;